@@ -32,13 +32,25 @@ const mermaidProps = [
     name: "config",
     type: "MermaidConfig",
     description:
-      "Configuration object for theming, fonts, and diagram-specific options.",
+      "Configuration object for theming, scoped custom CSS (themeCSS, classDefs), fonts, layout engine (dagre or elk), security, and per-diagram options (flowchart, sequence, gantt, class, state, er, pie, gitGraph, journey, mindmap, timeline, sankey, xyChart, quadrantChart, c4, block, packet, architecture, ...).",
   },
   {
     name: "className",
     type: "string",
     description: "Additional CSS classes for the container element.",
   },
+  {
+    name: "title",
+    type: "string",
+    description:
+      "Accessible name for the diagram, added to the SVG like accTitle unless the chart declares its own.",
+  },
+  {
+    name: "description",
+    type: "string",
+    description:
+      "Accessible description, added to the SVG like accDescr unless the chart declares its own.",
+  },
   {
     name: "onSuccess",
     type: "(svg: string) => void",
@@ -46,8 +58,64 @@ const mermaidProps = [
   },
   {
     name: "onError",
-    type: "(error: string) => void",
-    description: "Callback fired with the error message on render failure.",
+    type: "(error: MermaidRenderError) => void",
+    description:
+      "Callback fired on render failure with the message, line, column, expected tokens and diagram type.",
+  },
+  {
+    name: "onParse",
+    type: "(result: MermaidParseResult) => void",
+    description:
+      "Callback fired after parsing, before layout, with validity and the detected diagram type.",
+  },
+  {
+    name: "lockConfig",
+    type: "boolean | (keyof MermaidConfig)[]",
+    default: "false",
+    description:
+      "Keeps config prop values from being overridden by the chart's frontmatter or init directives. true locks every key that is set.",
+  },
+  {
+    name: "onConfigResolved",
+    type: "(config: MermaidResolvedConfig) => void",
+    description:
+      "Callback fired with the effective config after defaults, provider, prop and in-chart directives are merged.",
+  },
+  {
+    name: "onNodeClick",
+    type: "(nodeId: string, event: MouseEvent) => void",
+    description:
+      "Callback fired when a flowchart, state, class or ER node is clicked, with the node ID from the chart source.",
+  },
+  {
+    name: "onNodeHover",
+    type: "(nodeId: string | null, event: PointerEvent) => void",
+    description:
+      "Callback fired when the pointer enters a node, and with null when it leaves.",
+  },
+  {
+    name: "onEdgeHover",
+    type: "(edge: MermaidEdgeRef | null, event: PointerEvent) => void",
+    description:
+      "Callback fired with the hovered edge's id, source and target, and with null when it leaves.",
+  },
+  {
+    name: "selectedNodeIds",
+    type: "string[]",
+    description:
+      "Controlled selection. Matching nodes get the mermaidcn-selected class and a primary outline.",
+  },
+  {
+    name: "highlight",
+    type: "MermaidHighlight",
+    description:
+      'Node IDs and [source, target] edge pairs to highlight without re-running layout. Style is "emphasize", "dim-others" or a custom class name.',
+  },
+  {
+    name: "callbacks",
+    type: "Record<string, (...args: string[]) => void>",
+    description:
+      'Handlers for "click A name" directives. Requires securityLevel "loose"; names are global, so keep them unique per page.',
   },
   {
     name: "debounceTime",
@@ -56,6 +124,30 @@ const mermaidProps = [
     description:
       "Delay in ms before rendering triggers (useful for live editors).",
   },
+  {
+    name: "keepPreviousOnError",
+    type: "boolean",
+    default: "false",
+    description:
+      "Keeps the last successful diagram visible (dimmed) while the chart is invalid and shows the error in a collapsible badge. Avoids flashing in live editors.",
+  },
+  {
+    name: "renderLoading",
+    type: "() => ReactNode",
+    description:
+      "Replaces the default Rendering... overlay shown while a render is in flight.",
+  },
+  {
+    name: "renderError",
+    type: "(error: MermaidRenderError, chart: string) => ReactNode",
+    description:
+      "Replaces the default syntax error panel, e.g. to add a retry button or a link to an editor.",
+  },
+  {
+    name: "renderEmpty",
+    type: "() => ReactNode",
+    description: "Replaces the placeholder shown when chart is empty.",
+  },
 ];
 
 const zoomPanProps = [
@@ -200,6 +292,55 @@ export function ThemedDiagram() {
   )
 }`;
 
+const USE_MERMAID_EXAMPLE = `import { useMermaid, renderMermaid } from "@/components/mermaidcn/mermaid"
+
+export function DiagramCard({ chart }: { chart: string }) {
+  const { svg, error, status, diagramType, renderTime, rerender } =
+    useMermaid({ chart, config: { theme: "ocean" } })
+
+  if (status === "error") return <p>{error?.message}</p>
+  if (!svg) return <p>Rendering...</p>
+
+  return (
+    <figure>
+      <div dangerouslySetInnerHTML={{ __html: svg }} />
+      <figcaption>
+        {diagramType} in {renderTime?.toFixed(0)}ms
+        <button onClick={rerender}>Re-render</button>
+      </figcaption>
+    </figure>
+  )
+}
+
+// Outside React, e.g. for print views or exports
+const { svg } = await renderMermaid("graph TD; A-->B;", { theme: "forest" })`;
+
+const SUSPENSE_EXAMPLE = `import { Suspense } from "react"
+import { ErrorBoundary } from "react-error-boundary"
+import {
+  MermaidErrorPanel,
+  MermaidSuspense,
+  type MermaidError,
+} from "@/components/mermaidcn/mermaid"
+
+export function ArchitecturePage({ charts }: { charts: string[] }) {
+  return (
+    // One skeleton until every diagram on the page is ready
+    <Suspense fallback={<PageSkeleton />}>
+      {charts.map((chart) => (
+        <ErrorBoundary
+          key={chart}
+          fallbackRender={({ error }) => (
+            <MermaidErrorPanel error={error as MermaidError} />
+          )}
+        >
+          <MermaidSuspense chart={chart} />
+        </ErrorBoundary>
+      ))}
+    </Suspense>
+  )
+}`;
+
 const ZOOM_EXAMPLE = `import { Mermaid } from "@/components/mermaidcn/mermaid"
 import { ZoomPan } from "@/components/mermaidcn/zoom-pan"
 
@@ -419,6 +560,55 @@ export function DocsPage() {
                 />
               </LivePreview>
             </div>
+
+            <div>
+              <h3 className="text-foreground mb-3 text-sm font-semibold">
+                useMermaid Hook
+              </h3>
+              <p className="text-muted-foreground mb-3 text-sm leading-relaxed">
+                The render engine behind {"<Mermaid />"} is available headless.{" "}
+                <code className="bg-muted rounded px-1.5 py-0.5 font-mono text-xs">
+                  useMermaid
+                </code>{" "}
+                returns the SVG, status, error, detected diagram type and render
+                time, and{" "}
+                <code className="bg-muted rounded px-1.5 py-0.5 font-mono text-xs">
+                  renderMermaid
+                </code>{" "}
+                does the same imperatively. Both expose{" "}
+                <code className="bg-muted rounded px-1.5 py-0.5 font-mono text-xs">
+                  rerender()
+                </code>
+                .
+              </p>
+              <CodeBlock
+                code={USE_MERMAID_EXAMPLE}
+                filename="diagram-card.tsx"
+              />
+            </div>
+
+            <div>
+              <h3 className="text-foreground mb-3 text-sm font-semibold">
+                Suspense
+              </h3>
+              <p className="text-muted-foreground mb-3 text-sm leading-relaxed">
+                <code className="bg-muted rounded px-1.5 py-0.5 font-mono text-xs">
+                  {"<MermaidSuspense />"}
+                </code>{" "}
+                takes the same props as {"<Mermaid />"} but suspends while
+                rendering and throws a{" "}
+                <code className="bg-muted rounded px-1.5 py-0.5 font-mono text-xs">
+                  MermaidError
+                </code>{" "}
+                to the nearest error boundary, so loading and error UI come from
+                the surrounding {"<Suspense>"} tree. During SSR the fallback is
+                streamed and the diagram renders on the client.
+              </p>
+              <CodeBlock
+                code={SUSPENSE_EXAMPLE}
+                filename="architecture-page.tsx"
+              />
+            </div>
           </div>
         </section>
 
@@ -584,7 +774,7 @@ export function DocsPage() {
                 <h3 className="text-foreground mb-2 text-sm font-semibold">
                   Mermaid Renderer
                 </h3>
-                <InstallCommand command="npx shadcn@latest add https://mermaidcn.vercel.app/r/mermaid.json https://mermaidcn.vercel.app/r/mermaid-themes.json" />
+                <InstallCommand command="npx shadcn@latest add https://mermaidcn.vercel.app/r/mermaid.json https://mermaidcn.vercel.app/r/mermaid-themes.json https://mermaidcn.vercel.app/r/mermaid-colors.json https://mermaidcn.vercel.app/r/mermaid-icons.json" />
               </div>
               <div>
                 <h3 className="text-foreground mb-2 text-sm font-semibold">
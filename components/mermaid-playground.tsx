@@ -3,6 +3,26 @@
 import * as React from "react";
 import { MermaidEditor } from "@/components/mermaid-editor";
 import { MermaidPreview } from "@/components/mermaid-preview";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Textarea } from "@/components/ui/textarea";
 import {
   Select,
   SelectContent,
@@ -14,25 +34,69 @@ import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { cn } from "@/lib/utils";
 import {
   type MermaidConfig,
-  type MermaidBuiltinTheme,
+  type MermaidLayout,
+  type MermaidTheme,
 } from "@/components/mermaid";
 import { diagramTemplates } from "@/lib/diagram-templates";
-import { mermaidThemes, type MermaidCustomTheme } from "@/lib/mermaid-themes";
+import type { ColorVisionDeficiency } from "@/lib/mermaid-colors";
+import {
+  auditMermaidTheme,
+  createMermaidTheme,
+  getMermaidThemeVariables,
+  getMermaidThemes,
+  getShadcnThemeVariables,
+  parseMermaidInitDirective,
+  registerMermaidTheme,
+  toMermaidInitDirective,
+  toMermaidThemeCSS,
+  toMermaidThemeJSON,
+  type MermaidCustomTheme,
+  type MermaidThemeVariables,
+} from "@/lib/mermaid-themes";
+import { CircleAlertIcon, CircleCheckIcon, PaletteIcon } from "lucide-react";
 import { useTheme } from "next-themes";
 
-const THEMES: { label: string; value: string; color: string }[] = [
+let importCount = 0;
+
+const BUILTIN_THEMES: { label: string; value: string; color: string }[] = [
   { label: "Default", value: "default", color: "#6366f1" },
   { label: "Neutral", value: "neutral", color: "#737373" },
   { label: "Dark", value: "dark", color: "#1e293b" },
   { label: "Forest", value: "forest", color: "#10b981" },
   { label: "Base", value: "base", color: "#f43f5e" },
-  ...Object.entries(mermaidThemes).map(([key, theme]) => ({
-    label: key.charAt(0).toUpperCase() + key.slice(1),
-    value: key,
-    color: theme.primaryColor,
-  })),
+  { label: "shadcn", value: "shadcn", color: "var(--primary)" },
 ];
 
+// Read on every render so themes registered with registerMermaidTheme are listed too
+function getThemeOptions() {
+  return [
+    ...BUILTIN_THEMES,
+    ...Object.entries(getMermaidThemes()).map(([key, theme]) => ({
+      label: key.charAt(0).toUpperCase() + key.slice(1),
+      value: key,
+      color: theme.primaryColor,
+    })),
+  ];
+}
+
+// Every engine @mermaid-js/layout-elk registers, plus mermaid's own dagre
+const LAYOUTS: { label: string; value: MermaidLayout }[] = [
+  { label: "Dagre", value: "dagre" },
+  { label: "ELK", value: "elk" },
+  { label: "Stress", value: "elk.stress" },
+  { label: "Force", value: "elk.force" },
+  { label: "Tree", value: "elk.mrtree" },
+  { label: "Spore", value: "elk.sporeOverlap" },
+];
+
+const VISION_MODES: { label: string; value: ColorVisionDeficiency | "none" }[] =
+  [
+    { label: "Normal vision", value: "none" },
+    { label: "Protanopia", value: "protanopia" },
+    { label: "Deuteranopia", value: "deuteranopia" },
+    { label: "Tritanopia", value: "tritanopia" },
+  ];
+
 interface MermaidPlaygroundProps {
   defaultValue?: string;
   className?: string;
@@ -47,29 +111,100 @@ export function MermaidPlayground({
   );
   const [theme, setTheme] = React.useState<string>("default");
   const [look, setLook] = React.useState<"classic" | "handdrawn">("classic");
+  const [layout, setLayout] = React.useState<MermaidLayout>("dagre");
+  const [vision, setVision] = React.useState<ColorVisionDeficiency | "none">(
+    "none",
+  );
   const [svgOutput, setSvgOutput] = React.useState<string>("");
+  const [importOpen, setImportOpen] = React.useState(false);
+  const [importText, setImportText] = React.useState("");
+  const [importError, setImportError] = React.useState<string | null>(null);
+
+  const themes = getThemeOptions();
 
   const { resolvedTheme: siteTheme } = useTheme();
   const darkMode = siteTheme === "dark";
 
   // Config object for Mermaid
   const config = React.useMemo<MermaidConfig>(() => {
-    const isCustomTheme = ![
-      "default",
-      "neutral",
-      "dark",
-      "forest",
-      "base",
-    ].includes(theme);
+    // Presets are passed by name so useMermaid can pick their dark palette
     return {
-      theme: isCustomTheme ? "base" : (theme as MermaidBuiltinTheme),
+      theme: theme as MermaidTheme,
       darkMode,
       look,
-      themeVariables: isCustomTheme
-        ? mermaidThemes[theme as MermaidCustomTheme]
-        : undefined,
+      layout,
     };
-  }, [theme, look, darkMode]);
+  }, [theme, look, layout, darkMode]);
+
+  // Builtin mermaid themes derive their colors internally, so only presets and shadcn
+  // have variables to audit and export
+  const themeVariables = React.useMemo(
+    () =>
+      theme === "shadcn"
+        ? getShadcnThemeVariables()
+        : getMermaidThemeVariables(theme as MermaidCustomTheme, darkMode),
+    [theme, darkMode],
+  );
+  const contrastChecks = React.useMemo(
+    () => (themeVariables ? auditMermaidTheme(themeVariables) : []),
+    [themeVariables],
+  );
+  const contrastIssues = contrastChecks.filter((check) => !check.passes);
+
+  const handleCopy = async (text: string) => {
+    await navigator.clipboard.writeText(text);
+  };
+
+  const handleDownloadJson = () => {
+    if (!themeVariables) return;
+    const blob = new Blob([toMermaidThemeJSON(themeVariables)], {
+      type: "application/json",
+    });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `mermaid-theme-${theme}.json`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = (event: React.MouseEvent) => {
+    const variables = parseMermaidInitDirective(importText);
+    if (!variables) {
+      // Keep the dialog open so the pasted text can be fixed
+      event.preventDefault();
+      setImportError("No init directive with themeVariables found.");
+      return;
+    }
+    if (!variables.primaryColor) {
+      event.preventDefault();
+      setImportError("The directive needs at least a primaryColor.");
+      return;
+    }
+
+    let generated: MermaidThemeVariables;
+    try {
+      generated = createMermaidTheme({
+        seed: variables.primaryColor,
+        mode: darkMode ? "dark" : "light",
+      });
+    } catch {
+      event.preventDefault();
+      setImportError(`Unsupported primaryColor "${variables.primaryColor}".`);
+      return;
+    }
+
+    // Core colors the directive leaves out come from its primaryColor. Each import gets its own
+    // name, so importing while an earlier import is selected still changes the theme.
+    const name = registerMermaidTheme(
+      `imported-${++importCount}`,
+      { ...generated, ...variables },
+      { group: "Imported" },
+    );
+    setTheme(name);
+    setImportText("");
+    setImportError(null);
+  };
 
   const handleTemplateChange = (templateId: string) => {
     const template = diagramTemplates.find((t) => t.id === templateId);
@@ -122,6 +257,99 @@ export function MermaidPlayground({
             </TabsList>
           </Tabs>
 
+          {/* Layout Toggle */}
+          <Tabs
+            value={layout}
+            onValueChange={(v: string) => setLayout(v)}
+            className="h-8"
+          >
+            <TabsList className="h-8">
+              {LAYOUTS.map((option) => (
+                <TabsTrigger
+                  key={option.value}
+                  value={option.value}
+                  className="px-2 text-xs"
+                >
+                  {option.label}
+                </TabsTrigger>
+              ))}
+            </TabsList>
+          </Tabs>
+
+          {/* Color Vision Simulation */}
+          <Select
+            value={vision}
+            onValueChange={(v: string) =>
+              setVision(v as ColorVisionDeficiency | "none")
+            }
+          >
+            <SelectTrigger className="h-8 w-[130px] text-xs">
+              <SelectValue placeholder="Vision" />
+            </SelectTrigger>
+            <SelectContent>
+              {VISION_MODES.map((mode) => (
+                <SelectItem
+                  key={mode.value}
+                  value={mode.value}
+                  className="text-xs"
+                >
+                  {mode.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          {/* Contrast Audit */}
+          {contrastChecks.length > 0 && (
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline" className="h-8 gap-1.5 px-2 text-xs">
+                  {contrastIssues.length > 0 ? (
+                    <CircleAlertIcon className="text-destructive h-3.5 w-3.5" />
+                  ) : (
+                    <CircleCheckIcon className="h-3.5 w-3.5 text-emerald-500" />
+                  )}
+                  Contrast
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end" className="w-72">
+                <DropdownMenuLabel className="text-xs">
+                  {contrastIssues.length > 0
+                    ? `${contrastIssues.length} of ${contrastChecks.length} pairs below WCAG AA`
+                    : `All ${contrastChecks.length} pairs pass WCAG AA`}
+                </DropdownMenuLabel>
+                <DropdownMenuSeparator />
+                {contrastChecks.map((check) => (
+                  <div
+                    key={`${check.foreground}-${check.background}`}
+                    className="flex items-center gap-2 px-2 py-1 text-xs"
+                  >
+                    <span
+                      className="flex h-5 w-7 shrink-0 items-center justify-center rounded border text-[10px] font-semibold"
+                      style={{
+                        color: check.foregroundColor,
+                        backgroundColor: check.backgroundColor,
+                      }}
+                    >
+                      Aa
+                    </span>
+                    <span className="text-muted-foreground min-w-0 flex-1 truncate font-mono text-[10px]">
+                      {check.foreground} / {check.background}
+                    </span>
+                    <span
+                      className={cn(
+                        "tabular-nums",
+                        !check.passes && "text-destructive font-medium",
+                      )}
+                    >
+                      {check.ratio.toFixed(2)}
+                    </span>
+                  </div>
+                ))}
+              </DropdownMenuContent>
+            </DropdownMenu>
+          )}
+
           {/* Theme Select */}
           <Select value={theme} onValueChange={setTheme}>
             <SelectTrigger className="h-8 w-[130px] text-xs">
@@ -129,7 +357,7 @@ export function MermaidPlayground({
                 <span
                   className="h-2 w-2 rounded-full"
                   style={{
-                    backgroundColor: THEMES.find((t) => t.value === theme)
+                    backgroundColor: themes.find((t) => t.value === theme)
                       ?.color,
                   }}
                 />
@@ -137,7 +365,7 @@ export function MermaidPlayground({
               </div>
             </SelectTrigger>
             <SelectContent>
-              {THEMES.map((t) => (
+              {themes.map((t) => (
                 <SelectItem key={t.value} value={t.value} className="text-xs">
                   <div className="flex items-center gap-2">
                     <span
@@ -150,9 +378,94 @@ export function MermaidPlayground({
               ))}
             </SelectContent>
           </Select>
+
+          {/* Theme Import / Export */}
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline" size="icon" className="h-8 w-8">
+                <PaletteIcon className="h-3.5 w-3.5" />
+                <span className="sr-only">Import or export theme</span>
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end" className="w-52">
+              <DropdownMenuItem
+                className="text-xs"
+                disabled={!themeVariables}
+                onSelect={() =>
+                  themeVariables &&
+                  handleCopy(toMermaidInitDirective(themeVariables))
+                }
+              >
+                Copy init directive
+              </DropdownMenuItem>
+              <DropdownMenuItem
+                className="text-xs"
+                disabled={!themeVariables}
+                onSelect={() =>
+                  themeVariables &&
+                  handleCopy(toMermaidThemeCSS(themeVariables))
+                }
+              >
+                Copy CSS variables
+              </DropdownMenuItem>
+              <DropdownMenuItem
+                className="text-xs"
+                disabled={!themeVariables}
+                onSelect={() =>
+                  themeVariables &&
+                  handleCopy(toMermaidThemeJSON(themeVariables))
+                }
+              >
+                Copy JSON
+              </DropdownMenuItem>
+              <DropdownMenuItem
+                className="text-xs"
+                disabled={!themeVariables}
+                onSelect={handleDownloadJson}
+              >
+                Download JSON
+              </DropdownMenuItem>
+              <DropdownMenuSeparator />
+              <DropdownMenuItem
+                className="text-xs"
+                onSelect={() => setImportOpen(true)}
+              >
+                Import init directive…
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
         </div>
       </div>
 
+      <AlertDialog open={importOpen} onOpenChange={setImportOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Import theme</AlertDialogTitle>
+            <AlertDialogDescription>
+              Paste a <code>%%{"{init: ...}"}%%</code> directive, or a whole
+              chart that starts with one.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <Textarea
+            value={importText}
+            onChange={(e) => {
+              setImportText(e.target.value);
+              setImportError(null);
+            }}
+            placeholder={`%%{init: {"theme": "base", "themeVariables": {"primaryColor": "#6366f1"}}}%%`}
+            className="min-h-32 font-mono text-xs"
+            aria-invalid={!!importError}
+          />
+          {importError && (
+            <p className="text-destructive text-xs">{importError}</p>
+          )}
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleImport}>Import</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
       {/* Main Content: Editor + Preview */}
       <div className="flex min-h-[500px] flex-col md:h-[600px] md:flex-row">
         {/* Editor */}
@@ -171,6 +484,7 @@ export function MermaidPlayground({
             config={config}
             svgOutput={svgOutput}
             onSvgOutputChange={setSvgOutput}
+            vision={vision === "none" ? undefined : vision}
             className="h-full w-full"
           />
         </div>
@@ -1,6 +1,11 @@
 "use client";
 import * as React from "react";
-import { Mermaid, type MermaidConfig } from "@/components/mermaid";
+import {
+  Mermaid,
+  MermaidErrorBadge,
+  type MermaidConfig,
+  type MermaidRenderError,
+} from "@/components/mermaid";
 import { ZoomPan } from "@/components/zoom-pan";
 import { Button } from "@/components/ui/button";
 import {
@@ -10,6 +15,10 @@ import {
   ZoomOutIcon,
   LocateFixedIcon,
 } from "lucide-react";
+import {
+  toFeColorMatrix,
+  type ColorVisionDeficiency,
+} from "@/lib/mermaid-colors";
 import { cn } from "@/lib/utils";
 
 export interface MermaidPreviewProps {
@@ -17,6 +26,8 @@ export interface MermaidPreviewProps {
   config: MermaidConfig;
   svgOutput: string;
   onSvgOutputChange: (svg: string) => void;
+  /** Simulates a color vision deficiency on the preview only; exports are unaffected */
+  vision?: ColorVisionDeficiency;
   className?: string;
 }
 
@@ -25,6 +36,7 @@ export function MermaidPreview({
   config,
   svgOutput,
   onSvgOutputChange,
+  vision,
   className,
 }: MermaidPreviewProps) {
   const handleCopySvg = async () => {
@@ -80,6 +92,16 @@ export function MermaidPreview({
   };
 
   const [imageSrc, setImageSrc] = React.useState<string>("");
+  // The last good SVG stays in the preview while the source has errors
+  const [error, setError] = React.useState<MermaidRenderError | null>(null);
+
+  const handleSuccess = React.useCallback(
+    (svg: string) => {
+      setError(null);
+      onSvgOutputChange(svg);
+    },
+    [onSvgOutputChange],
+  );
 
   React.useEffect(() => {
     if (!svgOutput) {
@@ -93,101 +115,132 @@ export function MermaidPreview({
   }, [svgOutput]);
 
   return (
-    <ZoomPan
-      imageSrc={imageSrc}
-      className={cn("min-h-0", className)}
-      controls={({ zoomIn, zoomOut, resetZoom, centerView, scalePercent }) => (
-        <div className="bg-muted/50 border-border flex items-center justify-between border-b px-3 py-1.5">
-          <span className="text-muted-foreground text-xs font-medium">
-            Preview
-          </span>
-          <div className="flex items-center gap-1">
-            <Button
-              variant="ghost"
-              size="icon"
-              className="h-6 w-6"
-              onClick={zoomOut}
-              title="Zoom out"
-              disabled={!svgOutput}
-            >
-              <ZoomOutIcon className="h-3 w-3" />
-              <span className="sr-only">Zoom out</span>
-            </Button>
-            <button
-              onClick={resetZoom}
-              className="text-muted-foreground hover:text-foreground min-w-[3rem] px-1 text-center text-[10px] font-medium tabular-nums transition-colors"
-              title="Reset zoom"
-              disabled={!svgOutput}
-            >
-              {scalePercent}%
-            </button>
-            <Button
-              variant="ghost"
-              size="icon"
-              className="h-6 w-6"
-              onClick={zoomIn}
-              title="Zoom in"
-              disabled={!svgOutput}
-            >
-              <ZoomInIcon className="h-3 w-3" />
-              <span className="sr-only">Zoom in</span>
-            </Button>
-            <Button
-              variant="ghost"
-              size="icon"
-              className="h-6 w-6"
-              onClick={centerView}
-              title="Fit to center"
-              disabled={!svgOutput}
-            >
-              <LocateFixedIcon className="h-3 w-3" />
-              <span className="sr-only">Fit to center</span>
-            </Button>
+    <div
+      className={cn(
+        "relative min-h-0",
+        vision && "[&_canvas]:[filter:var(--vision-filter)]",
+        error && svgOutput && "[&_canvas]:opacity-40 [&_canvas]:grayscale",
+        className,
+      )}
+      style={
+        vision
+          ? ({
+              "--vision-filter": `url(#mermaid-vision-${vision})`,
+            } as React.CSSProperties)
+          : undefined
+      }
+    >
+      {vision && (
+        <svg aria-hidden className="absolute h-0 w-0">
+          <filter id={`mermaid-vision-${vision}`}>
+            <feColorMatrix type="matrix" values={toFeColorMatrix(vision)} />
+          </filter>
+        </svg>
+      )}
+      <ZoomPan
+        imageSrc={imageSrc}
+        className="min-h-0"
+        controls={({
+          zoomIn,
+          zoomOut,
+          resetZoom,
+          centerView,
+          scalePercent,
+        }) => (
+          <div className="bg-muted/50 border-border flex items-center justify-between border-b px-3 py-1.5">
+            <span className="text-muted-foreground text-xs font-medium capitalize">
+              {vision ? `Preview · ${vision}` : "Preview"}
+            </span>
+            <div className="flex items-center gap-1">
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6"
+                onClick={zoomOut}
+                title="Zoom out"
+                disabled={!svgOutput}
+              >
+                <ZoomOutIcon className="h-3 w-3" />
+                <span className="sr-only">Zoom out</span>
+              </Button>
+              <button
+                onClick={resetZoom}
+                className="text-muted-foreground hover:text-foreground min-w-[3rem] px-1 text-center text-[10px] font-medium tabular-nums transition-colors"
+                title="Reset zoom"
+                disabled={!svgOutput}
+              >
+                {scalePercent}%
+              </button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6"
+                onClick={zoomIn}
+                title="Zoom in"
+                disabled={!svgOutput}
+              >
+                <ZoomInIcon className="h-3 w-3" />
+                <span className="sr-only">Zoom in</span>
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6"
+                onClick={centerView}
+                title="Fit to center"
+                disabled={!svgOutput}
+              >
+                <LocateFixedIcon className="h-3 w-3" />
+                <span className="sr-only">Fit to center</span>
+              </Button>
 
-            <div className="bg-border mx-1 h-4 w-px" />
+              <div className="bg-border mx-1 h-4 w-px" />
 
-            <Button
-              variant="ghost"
-              size="icon"
-              className="h-6 w-6"
-              onClick={handleCopySvg}
-              title="Copy SVG"
-              disabled={!svgOutput}
-            >
-              <CopyIcon className="h-3 w-3" />
-              <span className="sr-only">Copy SVG</span>
-            </Button>
-            <Button
-              variant="ghost"
-              size="icon"
-              className="h-6 w-6"
-              onClick={handleExportSvg}
-              title="Export SVG"
-              disabled={!svgOutput}
-            >
-              <DownloadIcon className="h-3 w-3" />
-              <span className="sr-only">Export SVG</span>
-            </Button>
-            <Button
-              variant="ghost"
-              className="h-6 px-2 text-xs"
-              onClick={handleExportPng}
-              disabled={!svgOutput}
-              title="Export PNG"
-            >
-              PNG
-            </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6"
+                onClick={handleCopySvg}
+                title="Copy SVG"
+                disabled={!svgOutput}
+              >
+                <CopyIcon className="h-3 w-3" />
+                <span className="sr-only">Copy SVG</span>
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6"
+                onClick={handleExportSvg}
+                title="Export SVG"
+                disabled={!svgOutput}
+              >
+                <DownloadIcon className="h-3 w-3" />
+                <span className="sr-only">Export SVG</span>
+              </Button>
+              <Button
+                variant="ghost"
+                className="h-6 px-2 text-xs"
+                onClick={handleExportPng}
+                disabled={!svgOutput}
+                title="Export PNG"
+              >
+                PNG
+              </Button>
+            </div>
           </div>
-        </div>
-      )}
-    >
-      <Mermaid
-        chart={chart}
-        config={config}
-        className="h-full w-full"
-        onSuccess={onSvgOutputChange}
-        onError={() => onSvgOutputChange("")}
-      />
-    </ZoomPan>
+        )}
+      >
+        <Mermaid
+          chart={chart}
+          config={config}
+          className="h-full w-full"
+          keepPreviousOnError
+          onSuccess={handleSuccess}
+          onError={setError}
+        />
+      </ZoomPan>
+      {error && <MermaidErrorBadge error={error} />}
+    </div>
   );
 }
@@ -1,7 +1,11 @@
 "use client"
 
 import * as React from "react"
-import type { MermaidTheme } from "@/components/mermaid"
+import type {
+  MermaidCurve,
+  MermaidLayout,
+  MermaidTheme,
+} from "@/components/mermaid"
 import { diagramTemplates } from "@/lib/diagram-templates"
 import { Button } from "@/components/ui/button"
 import {
@@ -31,13 +35,39 @@ const themes: { value: MermaidTheme; label: string }[] = [
   { value: "base", label: "Base" },
 ]
 
+const curves: { value: MermaidCurve; label: string }[] = [
+  { value: "basis", label: "Basis" },
+  { value: "bumpX", label: "Bump X" },
+  { value: "bumpY", label: "Bump Y" },
+  { value: "cardinal", label: "Cardinal" },
+  { value: "catmullRom", label: "Catmull-Rom" },
+  { value: "linear", label: "Linear" },
+  { value: "monotoneX", label: "Monotone X" },
+  { value: "monotoneY", label: "Monotone Y" },
+  { value: "natural", label: "Natural" },
+  { value: "step", label: "Step" },
+  { value: "stepAfter", label: "Step After" },
+  { value: "stepBefore", label: "Step Before" },
+]
+
+const layouts: { value: MermaidLayout; label: string }[] = [
+  { value: "dagre", label: "Dagre" },
+  { value: "elk", label: "ELK" },
+  { value: "elk.stress", label: "Stress" },
+  { value: "elk.force", label: "Force" },
+  { value: "elk.mrtree", label: "Tree" },
+  { value: "elk.sporeOverlap", label: "Spore" },
+]
+
 export type ActivePanel = "editor" | "preview" | "both"
 
 export interface MermaidToolbarProps {
   theme: MermaidTheme
   onThemeChange: (theme: MermaidTheme) => void
-  curve: "linear" | "cardinal"
-  onCurveChange: (curve: "linear" | "cardinal") => void
+  curve: MermaidCurve
+  onCurveChange: (curve: MermaidCurve) => void
+  layout: MermaidLayout
+  onLayoutChange: (layout: MermaidLayout) => void
   fontSize: number
   onFontSizeChange: (size: number) => void
   activePanel: ActivePanel
@@ -54,6 +84,8 @@ export function MermaidToolbar({
   onThemeChange,
   curve,
   onCurveChange,
+  layout,
+  onLayoutChange,
   fontSize,
   onFontSizeChange,
   activePanel,
@@ -113,25 +145,40 @@ export function MermaidToolbar({
       {/* Curve */}
       <Select
         value={curve}
-        onValueChange={(v) =>
-          onCurveChange(v as "linear" | "cardinal")
-        }
+        onValueChange={(v) => onCurveChange(v as MermaidCurve)}
       >
-        <SelectTrigger className="h-8 w-28 text-xs">
+        <SelectTrigger className="h-8 w-32 text-xs">
           <SelectValue />
         </SelectTrigger>
         <SelectContent>
           <SelectGroup>
-            <SelectItem value="linear">
-              <span className="text-xs">Linear</span>
-            </SelectItem>
-            <SelectItem value="cardinal">
-              <span className="text-xs">Cardinal</span>
-            </SelectItem>
+            {curves.map((c) => (
+              <SelectItem key={c.value} value={c.value}>
+                <span className="text-xs">{c.label}</span>
+              </SelectItem>
+            ))}
           </SelectGroup>
         </SelectContent>
       </Select>
 
+      {/* Layout */}
+      <div className="bg-muted flex items-center rounded-md p-0.5">
+        {layouts.map((l) => (
+          <button
+            key={l.value}
+            onClick={() => onLayoutChange(l.value)}
+            className={cn(
+              "rounded-sm px-2 py-1 text-xs font-medium transition-colors",
+              layout === l.value
+                ? "bg-background text-foreground shadow-sm"
+                : "text-muted-foreground hover:text-foreground"
+            )}
+          >
+            {l.label}
+          </button>
+        ))}
+      </div>
+
       {/* Font Size */}
       <Select
         value={String(fontSize)}
@@ -1,8 +1,21 @@
 "use client";
 
 import * as React from "react";
+import type {
+  LayoutLoaderDefinition,
+  MermaidConfig as MermaidAPIConfig,
+} from "mermaid";
 import { cn } from "@/lib/utils";
-import { mermaidThemes, type MermaidCustomTheme } from "@/lib/mermaid-themes";
+import {
+  getMermaidThemeVariables,
+  getShadcnThemeVariables,
+  type MermaidCustomTheme,
+} from "@/lib/mermaid-themes";
+import {
+  defaultIconPacks,
+  resolveMermaidIconPacks,
+  type MermaidInlineIconPack,
+} from "@/lib/mermaid-icons";
 
 /* -------------------------------------------------------------------------------------------------
  * Types
@@ -14,7 +27,11 @@ export type MermaidBuiltinTheme =
   | "forest"
   | "neutral"
   | "base";
-export type MermaidTheme = MermaidBuiltinTheme | MermaidCustomTheme;
+/**
+ * "shadcn" derives the palette from the page's shadcn CSS variables and follows
+ * them when the site theme changes.
+ */
+export type MermaidTheme = MermaidBuiltinTheme | MermaidCustomTheme | "shadcn";
 
 const BUILTIN_THEMES = new Set<string>([
   "default",
@@ -24,59 +41,1227 @@ const BUILTIN_THEMES = new Set<string>([
   "base",
 ]);
 
-export interface MermaidConfig {
+/** Edge interpolation curves supported by mermaid's flowchart renderer */
+export type MermaidCurve =
+  | "basis"
+  | "bumpX"
+  | "bumpY"
+  | "cardinal"
+  | "catmullRom"
+  | "linear"
+  | "monotoneX"
+  | "monotoneY"
+  | "natural"
+  | "step"
+  | "stepAfter"
+  | "stepBefore";
+
+/**
+ * Layout engine for flowchart, state, class and ER diagrams. "dagre" ships
+ * with mermaid; "elk" and its variants are loaded on first use. Other names
+ * need a loader added with `registerMermaidLayoutLoader`.
+ */
+export type MermaidLayout =
+  | "dagre"
+  | "elk"
+  | "elk.stress"
+  | "elk.force"
+  | "elk.mrtree"
+  | "elk.sporeOverlap"
+  | (string & {});
+
+export type MermaidSecurityLevel =
+  | "strict"
+  | "loose"
+  | "antiscript"
+  | "sandbox";
+
+// Diagram-specific config sections forwarded to `mermaid.initialize` as-is
+const DIAGRAM_CONFIG_KEYS = [
+  "gantt",
+  "journey",
+  "timeline",
+  "class",
+  "state",
+  "er",
+  "pie",
+  "quadrantChart",
+  "xyChart",
+  "requirement",
+  "architecture",
+  "mindmap",
+  "kanban",
+  "gitGraph",
+  "c4",
+  "sankey",
+  "packet",
+  "block",
+  "radar",
+] as const satisfies readonly (keyof MermaidAPIConfig)[];
+
+export type MermaidDiagramConfigKey = (typeof DIAGRAM_CONFIG_KEYS)[number];
+
+/** Per-diagram options, typed from mermaid's own config schema */
+export type MermaidDiagramConfigs = {
+  [K in MermaidDiagramConfigKey]?: MermaidAPIConfig[K];
+};
+
+export interface MermaidConfig extends MermaidDiagramConfigs {
   theme?: MermaidTheme;
   darkMode?: boolean;
   look?: "classic" | "handdrawn";
+  layout?: MermaidLayout;
   themeVariables?: Record<string, string>;
-  flowchart?: {
-    curve?: "linear" | "cardinal";
-    padding?: number;
-    htmlLabels?: boolean;
-  };
-  sequence?: {
-    diagramMarginX?: number;
-    diagramMarginY?: number;
-    actorMargin?: number;
-    width?: number;
-    height?: number;
-    boxMargin?: number;
-    useMaxWidth?: boolean;
+  /** mermaid's flowchart options; `htmlLabels` defaults to true */
+  flowchart?: Omit<NonNullable<MermaidAPIConfig["flowchart"]>, "curve"> & {
+    curve?: MermaidCurve;
   };
+  sequence?: MermaidAPIConfig["sequence"];
   fontFamily?: string;
   fontSize?: number;
   logLevel?: "trace" | "debug" | "info" | "warn" | "error" | "fatal";
+  /**
+   * How much the chart source is trusted. Defaults to "strict", which encodes
+   * HTML in labels and disables click handlers. Only use "loose" for
+   * diagrams you author yourself; "sandbox" renders into a sandboxed iframe.
+   */
+  securityLevel?: MermaidSecurityLevel;
+  /**
+   * Icon packs available to `architecture-beta` services and flowchart
+   * `@{ icon: "pack:name" }` nodes. Strings name the built-in "lucide" pack
+   * or one added with `registerMermaidIconPack`. Defaults to `["lucide"]`.
+   */
+  iconPacks?: (string | MermaidInlineIconPack)[];
+  /**
+   * Extra CSS for tweaks theme variables can't express, such as rounded node
+   * corners. mermaid nests it under the diagram's unique SVG id, so it cannot
+   * style the rest of the page.
+   */
+  themeCSS?: string;
+  /**
+   * Node styles keyed by class name, in `classDef` syntax
+   * (`"fill:#fee2e2,stroke:#dc2626,color:#7f1d1d"`). Charts apply them with
+   * `A:::name` or `class A name` without declaring them.
+   */
+  classDefs?: Record<string, string>;
 }
 
 export interface MermaidProps {
   chart: string;
   config?: MermaidConfig;
   className?: string;
-  onError?: (error: string) => void;
+  /** Accessible name, added as the SVG's `<title>` unless the chart sets `accTitle` */
+  title?: string;
+  /** Accessible description, added as the SVG's `<desc>` unless the chart sets `accDescr` */
+  description?: string;
+  onError?: (error: MermaidRenderError) => void;
   onSuccess?: (svg: string) => void;
+  /** Called after parsing, before layout, with validity and diagram type */
+  onParse?: (result: MermaidParseResult) => void;
+  /** Keeps `config` values from being overridden by directives in the chart */
+  lockConfig?: MermaidConfigLock;
+  /** Called with the effective config once in-chart directives are applied */
+  onConfigResolved?: (config: MermaidResolvedConfig) => void;
+  /** Fired when a flowchart, state, class or ER node is clicked */
+  onNodeClick?: (nodeId: string, event: React.MouseEvent<Element>) => void;
+  /** Fired with the hovered node ID, and with `null` when the pointer leaves it */
+  onNodeHover?: (
+    nodeId: string | null,
+    event: React.PointerEvent<Element>,
+  ) => void;
+  /** Fired with the hovered edge, and with `null` when the pointer leaves it */
+  onEdgeHover?: (
+    edge: MermaidEdgeRef | null,
+    event: React.PointerEvent<Element>,
+  ) => void;
+  /** Node IDs (as written in the chart) rendered with the selected style */
+  selectedNodeIds?: string[];
+  /** Nodes and edges to highlight on top of the rendered SVG, without re-running layout */
+  highlight?: MermaidHighlight;
+  /**
+   * Handlers for `click A callbackName` directives in the chart. mermaid only
+   * honors these with `securityLevel: "loose"`, and resolves names globally,
+   * so keep them unique across diagrams on the same page.
+   */
+  callbacks?: Record<string, MermaidCallback>;
   /** Delay in ms before rendering triggers (useful for live editors) */
   debounceTime?: number;
+  /**
+   * Keeps the last successful diagram on screen, dimmed, while the chart is
+   * invalid, and reports the error in a badge instead of replacing it
+   */
+  keepPreviousOnError?: boolean;
+  /** Replaces the "Rendering..." overlay shown while a render is in flight */
+  renderLoading?: () => React.ReactNode;
+  /** Replaces the syntax error panel, e.g. to add a retry button or an editor link */
+  renderError?: (error: MermaidRenderError, chart: string) => React.ReactNode;
+  /** Replaces the placeholder shown when `chart` is empty */
+  renderEmpty?: () => React.ReactNode;
+}
+
+/**
+ * Render failures are thrown as `MermaidError` instead of reported through
+ * `onError`, and loading suspends instead of showing a spinner.
+ */
+export type MermaidSuspenseProps = Omit<
+  MermaidProps,
+  | "onError"
+  | "onParse"
+  | "onConfigResolved"
+  | "debounceTime"
+  | "keepPreviousOnError"
+  | "renderLoading"
+  | "renderError"
+>;
+
+export interface MermaidEdgeRef {
+  /** DOM id mermaid assigned to the edge, e.g. "L_A_B_0" */
+  id: string;
+  /** Source node ID, when it can be resolved */
+  source: string | null;
+  /** Target node ID, when it can be resolved */
+  target: string | null;
+}
+
+export interface MermaidHighlight {
+  /** Node IDs as written in the chart */
+  nodes?: string[];
+  /** Edges as `[source, target]` node ID pairs */
+  edges?: [string, string][];
+  /**
+   * "emphasize" (default) outlines the highlighted elements, "dim-others"
+   * additionally fades everything else. Any other value is added as a class
+   * name to the highlighted elements.
+   */
+  style?: "emphasize" | "dim-others" | (string & {});
+}
+
+/** Receives the directive's arguments, or the node's DOM id when it has none */
+export type MermaidCallback = (...args: string[]) => void;
+
+export type MermaidStatus = "idle" | "loading" | "success" | "error";
+
+export interface MermaidRenderError {
+  /** Full error message as reported by mermaid */
+  message: string;
+  /** 1-based line of the failing token in `source`, when known */
+  line: number | null;
+  /** 1-based column of the failing token in `source`, when known */
+  column: number | null;
+  /** Number of characters the failing token spans (at least 1) */
+  length: number;
+  /** Token the parser stumbled on, e.g. "NEWLINE" or "-->" */
+  token: string | null;
+  /** Tokens the parser would have accepted at that position */
+  expected: string[];
+  /** Diagram type detected before parsing failed, e.g. "flowchart" */
+  diagramType: string | null;
+  /** The chart source that was parsed (trimmed) */
+  source: string;
+  /** Raw parser details: the jison `hash` or the langium parse result */
+  hash: unknown;
+}
+
+/** Text equivalent of a rendered diagram, read to screen readers */
+export interface MermaidOutline {
+  /** Nodes, or participants in sequence diagrams */
+  nodes: { id: string; label: string }[];
+  /** Edges between node IDs, or messages in sequence diagrams, in chart order */
+  edges: { source: string; target: string; label: string }[];
+}
+
+export interface MermaidRenderState {
+  svg: string | null;
+  error: MermaidRenderError | null;
+  status: MermaidStatus;
+  /** Nodes and edges read from the parsed diagram, for diagram types that have them */
+  outline: MermaidOutline | null;
+  /** Attaches mermaid's event listeners once the SVG is in the DOM */
+  bindFunctions: ((element: Element) => void) | null;
+  /** Diagram type detected by mermaid, e.g. "flowchart" or "sequence" */
+  diagramType: string | null;
+  /** Wall-clock duration of the last render in ms */
+  renderTime: number | null;
+}
+
+export interface MermaidRenderResult extends MermaidRenderState {
+  /** Renders the same chart and config again */
+  rerender: () => Promise<MermaidRenderResult>;
+}
+
+export interface MermaidParseResult {
+  valid: boolean;
+  /** Diagram type detected by mermaid, e.g. "flowchart" or "sequence" */
+  diagramType: string | null;
+  error: MermaidRenderError | null;
+  /** Config declared in the chart itself (frontmatter `config:` and `%%{init}%%` directives) */
+  chartConfig: MermaidAPIConfig | null;
+}
+
+/** The config mermaid actually rendered with, after all layers were merged */
+export type MermaidResolvedConfig = MermaidAPIConfig;
+
+/**
+ * Keeps `config` values from being overridden by the chart's own frontmatter
+ * or `%%{init}%%` directives. `true` locks every key that is set.
+ */
+export type MermaidConfigLock = boolean | (keyof MermaidConfig)[];
+
+export interface RenderMermaidOptions {
+  /** Prefix for the generated SVG element id */
+  id?: string;
+  /** Element mermaid measures text and layout in */
+  container?: Element;
+  /** Called after parsing, before any layout work */
+  onParse?: (result: MermaidParseResult) => void;
+  lockConfig?: MermaidConfigLock;
+  /** Called with the effective config once in-chart directives are applied */
+  onConfigResolved?: (config: MermaidResolvedConfig) => void;
+  /** Accessible name for the SVG, unless the chart sets `accTitle` */
+  title?: string;
+  /** Accessible description for the SVG, unless the chart sets `accDescr` */
+  description?: string;
+}
+
+export interface UseMermaidOptions {
+  chart: string;
+  config?: MermaidConfig;
+  /** Delay in ms before rendering triggers (useful for live editors) */
+  debounceTime?: number;
+  /** Called after parsing, before any layout work */
+  onParse?: (result: MermaidParseResult) => void;
+  lockConfig?: MermaidConfigLock;
+  /** Called with the effective config once in-chart directives are applied */
+  onConfigResolved?: (config: MermaidResolvedConfig) => void;
+  /** On error, `svg` and `bindFunctions` keep the last successful render */
+  keepPreviousOnError?: boolean;
+  /** Accessible name for the SVG, unless the chart sets `accTitle` */
+  title?: string;
+  /** Accessible description for the SVG, unless the chart sets `accDescr` */
+  description?: string;
+}
+
+export interface UseMermaidResult extends MermaidRenderState {
+  /** Forces a new render of the current chart and config */
+  rerender: () => void;
+  /**
+   * Optional hidden container used for layout measurement. Attach it to an
+   * element in your tree for accurate sizing; otherwise mermaid measures in a
+   * temporary node on `document.body`.
+   */
+  renderRef: React.RefObject<HTMLDivElement | null>;
+}
+
+/* -------------------------------------------------------------------------------------------------
+ * Loader & Config
+ * Dynamic import of mermaid and translation of `MermaidConfig` into `mermaid.initialize` options.
+ * -----------------------------------------------------------------------------------------------*/
+
+type MermaidAPI = (typeof import("mermaid"))["default"];
+
+let mermaidPromise: Promise<MermaidAPI> | null = null;
+
+// Dynamic import to keep bundle size small. Cached so repeated renders share one module.
+function loadMermaid(): Promise<MermaidAPI> {
+  if (!mermaidPromise) {
+    mermaidPromise = import("mermaid").then((mod) => mod.default);
+  }
+  return mermaidPromise;
+}
+
+type MermaidLayoutLoader = () => Promise<LayoutLoaderDefinition[]>;
+
+const layoutLoaders = new Map<string, MermaidLayoutLoader>([
+  ["elk", () => import("@mermaid-js/layout-elk").then((mod) => mod.default)],
+]);
+const loadedLayouts = new Map<string, Promise<void>>();
+
+/**
+ * Adds a layout engine, imported the first time a chart uses it. `loader`
+ * resolves to the definitions passed to `mermaid.registerLayoutLoaders`.
+ * Variants named `<name>.<variant>` are served by the same loader.
+ */
+export function registerMermaidLayoutLoader(
+  name: string,
+  loader: MermaidLayoutLoader,
+) {
+  layoutLoaders.set(name, loader);
+  loadedLayouts.delete(name);
+}
+
+// Like mermaid itself, each engine is imported once and only when a chart needs it
+function loadLayout(mermaid: MermaidAPI, layout: string | undefined) {
+  const name =
+    layout && !layoutLoaders.has(layout) ? layout.split(".")[0] : layout;
+  const loader = name ? layoutLoaders.get(name) : undefined;
+  if (!name || !loader) return Promise.resolve();
+
+  let loaded = loadedLayouts.get(name);
+  if (!loaded) {
+    loaded = loader().then((definitions) =>
+      mermaid.registerLayoutLoaders(definitions),
+    );
+    // Allow a retry after a failed import
+    loaded.catch(() => loadedLayouts.delete(name));
+    loadedLayouts.set(name, loaded);
+  }
+  return loaded;
+}
+
+// Same rules mermaid generates for `classDef` statements, with `color` applied to SVG text too
+function classDefsToCss(classDefs: Record<string, string>) {
+  return Object.entries(classDefs)
+    .filter(([name]) => /^[\w-]+$/.test(name))
+    .map(([name, styles]) => {
+      const declarations = styles
+        .split(styles.includes(";") ? ";" : ",")
+        .map((declaration) => declaration.trim())
+        .filter(Boolean);
+      const important = (list: string[]) =>
+        list.map((declaration) => `${declaration} !important;`).join(" ");
+      const textFill = declarations
+        .filter((declaration) => /^color\s*:/.test(declaration))
+        .map((declaration) => declaration.replace(/^color/, "fill"));
+      return [
+        `.${name} > *, .${name} span { ${important(declarations)} }`,
+        textFill.length ? `.${name} tspan { ${important(textFill)} }` : "",
+      ]
+        .filter(Boolean)
+        .join("\n");
+    })
+    .join("\n");
+}
+
+/**
+ * mermaid scopes user CSS by nesting it under `#<svg id>`. An unbalanced brace
+ * would close that block early, and markup could end the `<style>` element,
+ * so either one drops the CSS.
+ */
+function resolveThemeCss(config: MermaidConfig) {
+  const css = [
+    config.themeCSS,
+    config.classDefs && classDefsToCss(config.classDefs),
+  ]
+    .filter(Boolean)
+    .join("\n");
+  if (!css) return undefined;
+
+  // Braces inside strings and comments don't open or close blocks
+  let depth = 0;
+  let closer: string | null = null;
+  for (let i = 0; i < css.length && depth >= 0; i++) {
+    if (closer) {
+      if (css[i] === "\\" && closer !== "*/") i++;
+      else if (css.startsWith(closer, i)) {
+        i += closer.length - 1;
+        closer = null;
+      }
+    } else if (css[i] === '"' || css[i] === "'") closer = css[i];
+    else if (css.startsWith("/*", i)) {
+      closer = "*/";
+      i++;
+    } else if (css[i] === "{") depth++;
+    else if (css[i] === "}") depth--;
+  }
+  if (closer || depth !== 0 || css.includes("<")) {
+    console.warn("Ignoring Mermaid themeCSS with unbalanced braces or markup");
+    return undefined;
+  }
+  return css;
+}
+
+/**
+ * Folds `classDefs` into a validated `themeCSS`. Applied once per render or
+ * parse, so everything downstream forwards `themeCSS` as is.
+ */
+function withThemeCss({ classDefs, ...config }: MermaidConfig): MermaidConfig {
+  return { ...config, themeCSS: resolveThemeCss({ ...config, classDefs }) };
+}
+
+function resolveInitializeConfig(config: MermaidConfig): MermaidAPIConfig {
+  // Resolve Theme
+  const isCustomTheme = config.theme && !BUILTIN_THEMES.has(config.theme);
+  // Presets switch to their dark palette; "shadcn" already follows the page's own mode
+  const presetThemeVars =
+    config.theme === "shadcn"
+      ? getShadcnThemeVariables()
+      : getMermaidThemeVariables(
+          config.theme as MermaidCustomTheme,
+          config.darkMode,
+        );
+  const resolvedThemeVars = isCustomTheme
+    ? {
+        ...presetThemeVars,
+        ...(config.darkMode ? { darkMode: true } : {}),
+        ...config.themeVariables,
+      }
+    : config.themeVariables;
+
+  const explicitTheme = config.theme as MermaidBuiltinTheme;
+  const resolvedMermaidTheme = isCustomTheme
+    ? "base"
+    : (!explicitTheme || explicitTheme === "default") && config.darkMode
+      ? "dark"
+      : (explicitTheme ?? "default");
+
+  const diagramConfigs = Object.fromEntries(
+    DIAGRAM_CONFIG_KEYS.filter((key) => config[key] != null).map((key) => [
+      key,
+      config[key],
+    ]),
+  ) as MermaidDiagramConfigs;
+
+  // Note: startOnLoad must be false so we can manually render
+  return {
+    ...diagramConfigs,
+    startOnLoad: false,
+    theme: resolvedMermaidTheme,
+    themeVariables: resolvedThemeVars,
+    look: config.look === "handdrawn" ? "handDrawn" : "classic",
+    ...(config.layout ? { layout: config.layout } : {}),
+    ...(config.themeCSS ? { themeCSS: config.themeCSS } : {}),
+    flowchart: {
+      ...config.flowchart,
+      htmlLabels: config.flowchart?.htmlLabels ?? true,
+    },
+    sequence: config.sequence,
+    fontFamily: config.fontFamily ?? "Inter, sans-serif",
+    fontSize: config.fontSize ?? 14,
+    logLevel: config.logLevel ?? "error",
+    securityLevel: config.securityLevel ?? "strict",
+  };
+}
+
+/* -------------------------------------------------------------------------------------------------
+ * Config Resolution
+ * Effective config, lowest to highest precedence:
+ *   1. mermaidcn defaults (see `resolveInitializeConfig`)
+ *   2. `<MermaidConfigProvider config>` (nested providers merge outer to inner)
+ *   3. the `config` prop
+ *   4. the chart's YAML frontmatter `config:` block and `%%{init}%%` directives
+ * With `lockConfig`, the locked prop values are re-applied above (4) as a trailing init directive,
+ * which mermaid merges last.
+ * -----------------------------------------------------------------------------------------------*/
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    Object.getPrototypeOf(value) === Object.prototype
+  );
+}
+
+/** Deep-merges configs left to right. Arrays and primitives are replaced. */
+export function mergeMermaidConfig<T extends object>(
+  ...configs: (T | null | undefined)[]
+): T {
+  const result: Record<string, unknown> = {};
+  for (const config of configs) {
+    if (!config) continue;
+    for (const [key, value] of Object.entries(config)) {
+      if (value === undefined) continue;
+      result[key] =
+        isPlainObject(value) && isPlainObject(result[key])
+          ? mergeMermaidConfig(result[key], value)
+          : value;
+    }
+  }
+  return result as T;
+}
+
+const MermaidConfigContext = React.createContext<MermaidConfig>({});
+
+/** Provides app-wide defaults for every `<Mermaid>` and `useMermaid` below it */
+export function MermaidConfigProvider({
+  config,
+  children,
+}: {
+  config: MermaidConfig;
+  children: React.ReactNode;
+}) {
+  const parent = React.useContext(MermaidConfigContext);
+  const value = React.useMemo(
+    () => mergeMermaidConfig(parent, config),
+    [parent, config],
+  );
+
+  return (
+    <MermaidConfigContext.Provider value={value}>
+      {children}
+    </MermaidConfigContext.Provider>
+  );
+}
+
+// Theme-related keys resolve together, so locking one locks the whole theme
+const LOCK_KEY_GROUPS: Partial<
+  Record<keyof MermaidConfig, (keyof MermaidAPIConfig)[]>
+> = {
+  theme: ["theme", "themeVariables"],
+  darkMode: ["theme", "themeVariables"],
+  themeVariables: ["theme", "themeVariables"],
+  classDefs: ["themeCSS"],
+};
+
+function getLockDirective(
+  config: MermaidConfig,
+  lockedKeys: (keyof MermaidConfig)[],
+) {
+  if (!lockedKeys.length) return "";
+  const resolved = resolveInitializeConfig(config);
+  const locked: Record<string, unknown> = {};
+  for (const key of lockedKeys) {
+    // Keys that only exist on mermaidcn's config (e.g. iconPacks) resolve to nothing
+    const initKeys = LOCK_KEY_GROUPS[key] ?? [key as keyof MermaidAPIConfig];
+    for (const initKey of initKeys) {
+      if (resolved[initKey] !== undefined) locked[initKey] = resolved[initKey];
+    }
+  }
+  if (!Object.keys(locked).length) return "";
+  // mermaid swaps ' for " before parsing directives, so keep quotes escaped
+  const json = JSON.stringify(locked).replace(/'/g, "\\u0027");
+  return `\n%%{init: ${json}}%%`;
+}
+
+function getLockedKeys(
+  config: MermaidConfig,
+  lock: MermaidConfigLock | undefined,
+): (keyof MermaidConfig)[] {
+  if (lock === true) return Object.keys(config) as (keyof MermaidConfig)[];
+  return lock || [];
+}
+
+/* -------------------------------------------------------------------------------------------------
+ * Scheduler
+ * mermaid keeps its configuration in module-global state, so `initialize` + `parse`/`render` must
+ * run as one unit. Every call goes through this queue, which guarantees each instance renders with its
+ * own config even when several diagrams with different themes mount at once.
+ * -----------------------------------------------------------------------------------------------*/
+
+let queue: Promise<unknown> = Promise.resolve();
+let lastInitializeKey: string | null = null;
+
+function enqueue<T>(task: () => Promise<T>): Promise<T> {
+  const run = queue.then(task, task);
+  // Keep the chain alive when a task fails; the caller still sees the rejection
+  queue = run.catch(() => undefined);
+  return run;
+}
+
+function withConfig<T>(
+  mermaid: MermaidAPI,
+  config: MermaidConfig,
+  task: () => Promise<T>,
+): Promise<T> {
+  const initializeConfig = resolveInitializeConfig(config);
+  const initializeKey = JSON.stringify(initializeConfig);
+
+  return enqueue(() => {
+    // Skip re-initializing when the previous call used the same config
+    if (initializeKey !== lastInitializeKey) {
+      lastInitializeKey = null;
+      mermaid.initialize(initializeConfig);
+      lastInitializeKey = initializeKey;
+    }
+    return task();
+  });
+}
+
+/* -------------------------------------------------------------------------------------------------
+ * Errors
+ * Normalizes the two parser families mermaid uses (jison and langium) into `MermaidRenderError`.
+ * -----------------------------------------------------------------------------------------------*/
+
+interface JisonErrorHash {
+  text?: string;
+  token?: string | null;
+  line?: number;
+  loc?: {
+    first_line: number;
+    last_line: number;
+    first_column: number;
+    last_column: number;
+  };
+  expected?: string[];
+}
+
+interface LangiumParseResult {
+  lexerErrors: { line?: number; column?: number; length: number }[];
+  parserErrors: {
+    token: { startLine?: number; startColumn?: number; image: string };
+  }[];
+}
+
+type MermaidErrorPosition = Pick<
+  MermaidRenderError,
+  "line" | "column" | "length" | "token" | "expected" | "hash"
+>;
+
+/**
+ * mermaid's `preprocessDiagram` strips frontmatter, directives, `%%` comment
+ * lines and leading whitespace before parsing, so parser lines count lines of
+ * that text. Replays those steps while tracking each character's source line,
+ * and returns a function mapping a parser line back to a `source` line.
+ */
+function getSourceLineMapper(source: string) {
+  let text = source.replace(/\r\n?/g, "\n");
+  let lineOf: number[] = [];
+  let current = 1;
+  for (const char of text) {
+    lineOf.push(current);
+    if (char === "\n") current++;
+  }
+
+  const remove = (pattern: RegExp) => {
+    let kept = "";
+    const keptLines: number[] = [];
+    let last = 0;
+    for (const match of text.matchAll(pattern)) {
+      kept += text.slice(last, match.index);
+      keptLines.push(...lineOf.slice(last, match.index));
+      last = match.index + match[0].length;
+    }
+    text = kept + text.slice(last);
+    lineOf = keptLines.concat(lineOf.slice(last));
+  };
+
+  // Same patterns as mermaid's frontmatter, directive and comment handling
+  remove(/^-{3}\s*[\n\r]([\s\S]*?)[\n\r]-{3}\s*[\n\r]+/g);
+  remove(
+    /%{2}{\s*(?:(\w+)\s*:|(\w+))\s*(?:(\w+)|((?:(?!}%{2}).|\r?\n)*))?\s*(?:}%{2})?/gi,
+  );
+  remove(/^\s*%%(?!{)[^\n]+\n?/gm);
+  remove(/^\s+/g);
+
+  return (line: number) => {
+    let index = 0;
+    for (let i = 1; i < line; i++) {
+      const next = text.indexOf("\n", index);
+      if (next === -1) break;
+      index = next + 1;
+    }
+    return lineOf[Math.min(index, lineOf.length - 1)] ?? line;
+  };
+}
+
+function getErrorPosition(
+  err: unknown,
+  message: string,
+  source: string,
+): MermaidErrorPosition {
+  const position: MermaidErrorPosition = {
+    line: null,
+    column: null,
+    length: 1,
+    token: null,
+    expected: [],
+    hash: null,
+  };
+  if (typeof err !== "object" || err === null) return position;
+  const toSourceLine = getSourceLineMapper(source);
+
+  // jison parsers (flowchart, sequence, class, state, ...) attach a `hash`.
+  // `hash.loc` is the last token the parser accepted; the failing token is the
+  // lookahead `hash.text`, so search for it from the end of that location.
+  if ("hash" in err && typeof err.hash === "object" && err.hash !== null) {
+    const hash = err.hash as JisonErrorHash;
+    position.hash = hash;
+    position.token = hash.token ?? null;
+    position.expected = (hash.expected ?? []).map((e) =>
+      e.replace(/^'|'$/g, ""),
+    );
+    const parsedLine =
+      typeof hash.line === "number"
+        ? hash.line + 1
+        : (hash.loc?.last_line ?? null);
+    if (parsedLine !== null) {
+      position.line = toSourceLine(parsedLine);
+      const sourceLine = source.split("\n")[position.line - 1] ?? "";
+      const searchFrom =
+        hash.loc?.last_line === parsedLine ? hash.loc.last_column : 0;
+      const text = hash.text?.trim() ?? "";
+      const index = text ? sourceLine.indexOf(text, searchFrom) : -1;
+      position.column = (index >= 0 ? index : searchFrom) + 1;
+      position.length = index >= 0 ? text.length : 1;
+    }
+    return position;
+  }
+
+  // langium parsers (pie, gitGraph, packet, architecture, ...) attach a `result`
+  if ("result" in err && typeof err.result === "object" && err.result) {
+    const result = err.result as LangiumParseResult;
+    position.hash = result;
+    const lexerError = result.lexerErrors[0];
+    const parserError = result.parserErrors[0];
+    if (lexerError) {
+      position.line =
+        lexerError.line != null ? toSourceLine(lexerError.line) : null;
+      position.column = lexerError.column ?? null;
+      position.length = Math.max(1, lexerError.length);
+    } else if (parserError) {
+      position.line =
+        parserError.token.startLine != null
+          ? toSourceLine(parserError.token.startLine)
+          : null;
+      position.column = parserError.token.startColumn ?? null;
+      position.token = parserError.token.image || null;
+      position.length = Math.max(1, parserError.token.image.length);
+    }
+    return position;
+  }
+
+  // Fall back to "... on line 3" / "line 3, column 5" in the message
+  const match = /line (\d+)(?:, column (\d+))?/i.exec(message);
+  if (match) {
+    position.line = toSourceLine(Number(match[1]));
+    position.column = match[2] ? Number(match[2]) : null;
+  }
+  return position;
+}
+
+async function toMermaidRenderError(
+  err: unknown,
+  source: string,
+): Promise<MermaidRenderError> {
+  const message =
+    err instanceof Error ? err.message : "Failed to render diagram";
+
+  let diagramType: string | null = null;
+  try {
+    diagramType = (await loadMermaid()).detectType(source);
+  } catch {
+    // Unknown diagram type: leave it null
+  }
+
+  return {
+    message,
+    ...getErrorPosition(err, message, source),
+    diagramType,
+    source,
+  };
+}
+
+/**
+ * A `MermaidRenderError` as a throwable. `<MermaidSuspense>` throws it to the
+ * nearest error boundary, which can pass it straight to `MermaidErrorPanel`.
+ */
+export class MermaidError extends Error implements MermaidRenderError {
+  line: number | null;
+  column: number | null;
+  length: number;
+  token: string | null;
+  expected: string[];
+  diagramType: string | null;
+  source: string;
+  hash: unknown;
+
+  constructor(error: MermaidRenderError) {
+    super(error.message);
+    this.name = "MermaidError";
+    this.line = error.line;
+    this.column = error.column;
+    this.length = error.length;
+    this.token = error.token;
+    this.expected = error.expected;
+    this.diagramType = error.diagramType;
+    this.source = error.source;
+    this.hash = error.hash;
+  }
+}
+
+/* -------------------------------------------------------------------------------------------------
+ * Sanitizer
+ * A last pass over mermaid's output, independent of `securityLevel`, so untrusted charts can never
+ * smuggle scripts into the page or into `onSuccess` consumers.
+ * -----------------------------------------------------------------------------------------------*/
+
+const URL_ATTRIBUTES = new Set([
+  "href",
+  "xlink:href",
+  "src",
+  "action",
+  "formaction",
+  // SVG <animate>/<set> can swap an href at runtime
+  "from",
+  "to",
+  "values",
+]);
+
+function isScriptUrl(value: string) {
+  // Browsers ignore whitespace and control characters when resolving the scheme
+  const normalized = Array.from(value)
+    .filter((char) => char.charCodeAt(0) > 0x20)
+    .join("");
+  return /^(javascript|vbscript):/i.test(normalized);
+}
+
+/**
+ * Removes `<script>` elements, `on*` event-handler attributes and
+ * `javascript:` URLs from an SVG string. Returns the input untouched when
+ * nothing had to be removed.
+ */
+export function sanitizeSvg(svg: string): string {
+  // Template content is inert: nothing in it runs while we inspect it
+  const template = document.createElement("template");
+  template.innerHTML = svg;
+  let modified = false;
+
+  template.content.querySelectorAll("script").forEach((el) => {
+    el.remove();
+    modified = true;
+  });
+
+  template.content.querySelectorAll("*").forEach((el) => {
+    for (const attr of Array.from(el.attributes)) {
+      const name = attr.name.toLowerCase();
+      if (
+        name.startsWith("on") ||
+        (URL_ATTRIBUTES.has(name) && isScriptUrl(attr.value))
+      ) {
+        el.removeAttribute(attr.name);
+        modified = true;
+      }
+    }
+  });
+
+  if (!modified) return svg;
+  // Match mermaid's own output so the SVG stays valid XML for exports
+  return template.innerHTML.replace(/<br>/g, "<br/>");
+}
+
+/* -------------------------------------------------------------------------------------------------
+ * Accessibility
+ * Text equivalents for the SVG: `<title>`/`<desc>` for its accessible name, and an outline of
+ * nodes and edges read back from the rendered SVG for screen readers.
+ * -----------------------------------------------------------------------------------------------*/
+
+function textOf(element: Element | null | undefined) {
+  return (element?.textContent ?? "").replace(/\s+/g, " ").trim();
+}
+
+// Flowchart, class, state and ER: nodes map back to chart IDs, edges resolve like pointer events do
+function getGraphOutline(root: Element): MermaidOutline | null {
+  const nodes = new Map<string, string>();
+  root.querySelectorAll("g.node").forEach((node) => {
+    const id = getMermaidNodeId(node);
+    if (id && !nodes.has(id)) {
+      nodes.set(id, textOf(node.querySelector(".nodeLabel, text")) || id);
+    }
+  });
+  if (!nodes.size) return null;
+
+  const nodeIds = new Set(nodes.keys());
+  const edges: MermaidOutline["edges"] = [];
+  root.querySelectorAll('[data-edge="true"]').forEach((path) => {
+    const { id, source, target } = resolveEdge(path, nodeIds);
+    if (!source || !target) return;
+    const label = root.querySelector(
+      `.edgeLabel [data-id="${CSS.escape(id)}"]`,
+    );
+    edges.push({ source, target, label: textOf(label) });
+  });
+
+  return {
+    nodes: Array.from(nodes, ([id, label]) => ({ id, label })),
+    edges,
+  };
+}
+
+// Sequence diagrams don't tag messages with their participants, so each
+// message line is matched to the lifelines nearest its two ends
+function getSequenceOutline(root: Element): MermaidOutline | null {
+  const actors = Array.from(
+    root.querySelectorAll("line.actor-line[name]"),
+    (line) => {
+      const id = line.getAttribute("name")!;
+      return {
+        id,
+        label: textOf(line.parentElement?.querySelector("text")) || id,
+        x: Number(line.getAttribute("x1")),
+      };
+    },
+  );
+  if (!actors.length) return null;
+
+  const nearest = (x: number) =>
+    actors.reduce((best, actor) =>
+      Math.abs(actor.x - x) < Math.abs(best.x - x) ? actor : best,
+    ).id;
+
+  const edges: MermaidOutline["edges"] = [];
+  let label: string[] = [];
+  // Each message's text is drawn just before its line, one <text> per line break
+  root
+    .querySelectorAll(".messageText, .messageLine0, .messageLine1")
+    .forEach((element) => {
+      if (element.classList.contains("messageText")) {
+        label.push(textOf(element));
+        return;
+      }
+      // Self-messages are a path that starts and ends on the sender's lifeline
+      const start = Number(
+        element.getAttribute("x1") ??
+          /^M\s*(-?[\d.]+)/.exec(element.getAttribute("d") ?? "")?.[1],
+      );
+      const end = Number(element.getAttribute("x2") ?? start);
+      edges.push({
+        source: nearest(start),
+        target: nearest(end),
+        label: label.join(" "),
+      });
+      label = [];
+    });
+
+  return {
+    nodes: actors.map(({ id, label }) => ({ id, label })),
+    edges,
+  };
+}
+
+/** Best effort: diagrams without mappable nodes or participants resolve to `null` */
+function getMermaidOutline(svg: string): MermaidOutline | null {
+  const template = document.createElement("template");
+  template.innerHTML = svg;
+  const root = template.content.querySelector("svg");
+  if (!root) return null;
+  return getSequenceOutline(root) ?? getGraphOutline(root);
+}
+
+/**
+ * Adds `<title>`/`<desc>` to the SVG the way mermaid does for `accTitle` and
+ * `accDescr`. Values declared in the chart itself are kept.
+ */
+function addAccessibleText(
+  svg: string,
+  id: string,
+  { title, description }: Pick<RenderMermaidOptions, "title" | "description">,
+): string {
+  if (!title && !description) return svg;
+
+  const template = document.createElement("template");
+  template.innerHTML = svg;
+  const root = template.content.querySelector("svg");
+  if (!root) return svg;
+
+  const insert = (tag: "title" | "desc", text: string | undefined) => {
+    if (!text || root.querySelector(`:scope > ${tag}`)) return;
+    const element = document.createElementNS(root.namespaceURI, tag);
+    element.id = `chart-${tag}-${id}`;
+    element.textContent = text;
+    root.prepend(element);
+    root.setAttribute(
+      tag === "title" ? "aria-labelledby" : "aria-describedby",
+      element.id,
+    );
+  };
+  // Same order as mermaid: <title> ends up first
+  insert("desc", description);
+  insert("title", title);
+
+  return template.innerHTML.replace(/<br>/g, "<br/>");
+}
+
+function MermaidOutlineText({
+  outline,
+  diagramType,
+}: {
+  outline: MermaidOutline;
+  diagramType: string | null;
+}) {
+  const labels = new Map(outline.nodes.map((node) => [node.id, node.label]));
+  const isSequence = diagramType === "sequence";
+
+  return (
+    <div className="sr-only">
+      {outline.nodes.length > 0 && (
+        <>
+          <p>
+            {outline.nodes.length} {isSequence ? "participants" : "nodes"}:
+          </p>
+          <ul>
+            {outline.nodes.map((node) => (
+              <li key={node.id}>{node.label}</li>
+            ))}
+          </ul>
+        </>
+      )}
+      {outline.edges.length > 0 && (
+        <>
+          <p>
+            {outline.edges.length} {isSequence ? "messages" : "connections"}:
+          </p>
+          <ol>
+            {outline.edges.map((edge, i) => (
+              <li key={i}>
+                {labels.get(edge.source) ?? edge.source} to{" "}
+                {labels.get(edge.target) ?? edge.target}
+                {edge.label && `: ${edge.label}`}
+              </li>
+            ))}
+          </ol>
+        </>
+      )}
+    </div>
+  );
+}
+
+/* -------------------------------------------------------------------------------------------------
+ * Engine: renderMermaid
+ * A single render cycle. Shared by the hook and the component.
+ * -----------------------------------------------------------------------------------------------*/
+
+let renderCounter = 0;
+
+async function parseChart(
+  mermaid: MermaidAPI,
+  config: MermaidConfig,
+  source: string,
+  lockDirective = "",
+): Promise<MermaidParseResult> {
+  try {
+    const { diagramType, config: chartConfig } = await withConfig(
+      mermaid,
+      config,
+      () => mermaid.parse(source + lockDirective),
+    );
+    return { valid: true, diagramType, error: null, chartConfig };
+  } catch (err) {
+    const error = await toMermaidRenderError(err, source);
+    return {
+      valid: false,
+      diagramType: error.diagramType,
+      error,
+      chartConfig: null,
+    };
+  }
+}
+
+async function renderOnce(
+  chart: string,
+  rawConfig: MermaidConfig,
+  options: RenderMermaidOptions,
+): Promise<MermaidRenderState> {
+  const startedAt = performance.now();
+  const source = chart.trim();
+  const config = withThemeCss(rawConfig);
+  const failed = (error: MermaidRenderError): MermaidRenderState => ({
+    svg: null,
+    error,
+    status: "error",
+    bindFunctions: null,
+    outline: null,
+    diagramType: error.diagramType,
+    renderTime: performance.now() - startedAt,
+  });
+
+  try {
+    const mermaid = await loadMermaid();
+
+    // Appended last so it wins over the chart's own directives
+    const lockDirective = getLockDirective(
+      config,
+      getLockedKeys(config, options.lockConfig),
+    );
+
+    // Parse first: invalid charts fail fast without any layout work
+    const parsed = await parseChart(mermaid, config, source, lockDirective);
+    options.onParse?.(parsed);
+    if (parsed.error) return failed(parsed.error);
+    options.onConfigResolved?.(
+      mergeMermaidConfig(resolveInitializeConfig(config), parsed.chartConfig),
+    );
+
+    // Load icons and the layout engine before taking the queue so slow loaders
+    // don't block other diagrams. The chart's own `layout` takes precedence.
+    const [iconPacks] = await Promise.all([
+      resolveMermaidIconPacks(config.iconPacks ?? defaultIconPacks, source),
+      loadLayout(mermaid, parsed.chartConfig?.layout ?? config.layout),
+    ]);
+
+    // Generate unique ID for this specific render cycle
+    const uniqueId = `mermaid-${options.id ?? "render"}-${Date.now()}-${renderCounter++}`;
+
+    const result = await withConfig(mermaid, config, async () => {
+      mermaid.registerIconPacks(iconPacks);
+      return mermaid.render(
+        uniqueId,
+        source + lockDirective,
+        options.container,
+      );
+    });
+    const svg = sanitizeSvg(addAccessibleText(result.svg, uniqueId, options));
+
+    return {
+      svg,
+      error: null,
+      status: "success",
+      bindFunctions: result.bindFunctions ?? null,
+      outline: getMermaidOutline(svg),
+      diagramType: result.diagramType,
+      renderTime: performance.now() - startedAt,
+    };
+  } catch (err) {
+    return failed(await toMermaidRenderError(err, source));
+  }
+}
+
+/**
+ * Renders a chart to an SVG string outside of React. Never throws: failures
+ * resolve with `status: "error"` and a structured `MermaidRenderError`.
+ */
+export async function renderMermaid(
+  chart: string,
+  config: MermaidConfig = {},
+  options: RenderMermaidOptions = {},
+): Promise<MermaidRenderResult> {
+  const state = await renderOnce(chart, config, options);
+  return { ...state, rerender: () => renderMermaid(chart, config, options) };
+}
+
+/**
+ * Checks a chart with `mermaid.parse` only, skipping layout and SVG output.
+ * Cheap enough for form validation and save hooks.
+ */
+export async function validateMermaid(
+  chart: string,
+  config: MermaidConfig = {},
+): Promise<MermaidParseResult> {
+  const source = chart.trim();
+  try {
+    return await parseChart(await loadMermaid(), withThemeCss(config), source);
+  } catch (err) {
+    const error = await toMermaidRenderError(err, source);
+    return { valid: false, diagramType: null, error, chartConfig: null };
+  }
 }
 
 /* -------------------------------------------------------------------------------------------------
  * Hook: useMermaid
- * Handles dynamic imports, configuration, and rendering logic.
+ * Headless render state for a chart. Re-renders on chart/config change or on demand.
  * -----------------------------------------------------------------------------------------------*/
 
-function useMermaid({
+const IDLE_STATE: MermaidRenderState = {
+  svg: null,
+  error: null,
+  status: "idle",
+  bindFunctions: null,
+  outline: null,
+  diagramType: null,
+  renderTime: null,
+};
+
+export function useMermaid({
   chart,
   config,
   debounceTime = 300,
-}: {
-  chart: string;
-  config?: MermaidConfig;
-  debounceTime?: number;
-}) {
-  const [svg, setSvg] = React.useState<string | null>(null);
-  const [error, setError] = React.useState<string | null>(null);
-  const [status, setStatus] = React.useState<
-    "idle" | "loading" | "success" | "error"
-  >("idle");
+  onParse,
+  lockConfig,
+  onConfigResolved,
+  keepPreviousOnError = false,
+  title,
+  description,
+}: UseMermaidOptions): UseMermaidResult {
+  const [state, setState] = React.useState<MermaidRenderState>(IDLE_STATE);
+  const [renderKey, setRenderKey] = React.useState(0);
 
   // Unique ID for this diagram instance
   const id = React.useId().replace(/:/g, "");
@@ -87,103 +1272,85 @@ function useMermaid({
   // Debounce the input chart string to avoid thrashing
   const debouncedChart = useDebounce(chart, debounceTime);
 
+  // Layer the prop over the nearest provider; locks apply to prop values only
+  const providerConfig = React.useContext(MermaidConfigContext);
+  const lockedKeys = getLockedKeys(config ?? {}, lockConfig);
+
   // Memoize config to prevent deep object comparison issues in effects
   const configString = React.useMemo(
-    () => JSON.stringify(config ?? {}),
-    [config],
+    () => JSON.stringify(mergeMermaidConfig(providerConfig, config)),
+    [providerConfig, config],
+  );
+  const lockString = lockedKeys.join(",");
+
+  // The "shadcn" theme is read from CSS at render time, so follow its changes explicitly
+  const shadcnThemeKey = useShadcnThemeKey(
+    (config?.theme ?? providerConfig.theme) === "shadcn",
   );
 
+  const rerender = React.useCallback(() => setRenderKey((k) => k + 1), []);
+
+  // Read the latest callback without re-running the render effect
+  const onParseRef = useLatest(onParse);
+  const onConfigResolvedRef = useLatest(onConfigResolved);
+
   React.useEffect(() => {
     if (!debouncedChart.trim()) {
-      setStatus("idle");
-      setSvg(null);
-      setError(null);
+      setState(IDLE_STATE);
       return;
     }
 
     let isCancelled = false;
 
     const render = async () => {
-      setStatus("loading");
-      setError(null);
+      // A kept diagram stays dimmed with its error until the next render settles
+      setState((prev) => ({
+        ...prev,
+        status: "loading",
+        error: keepPreviousOnError ? prev.error : null,
+      }));
 
-      try {
-        // Dynamic import to keep bundle size small
-        const mermaid = (await import("mermaid")).default;
+      const container = renderRef.current ?? undefined;
+      if (container) container.innerHTML = "";
 
-        if (isCancelled) return;
+      // We pass the ref as the container so Mermaid can calculate dimensions accurately
+      const result = await renderOnce(
+        debouncedChart,
+        JSON.parse(configString),
+        {
+          id,
+          container,
+          lockConfig: lockString
+            ? (lockString.split(",") as (keyof MermaidConfig)[])
+            : false,
+          onParse: (result) => {
+            if (!isCancelled) onParseRef.current?.(result);
+          },
+          onConfigResolved: (resolved) => {
+            if (!isCancelled) onConfigResolvedRef.current?.(resolved);
+          },
+          title,
+          description,
+        },
+      );
 
-        const parsedConfig: MermaidConfig = JSON.parse(configString);
+      if (isCancelled) return;
 
-        // Resolve Theme
-        const isCustomTheme =
-          parsedConfig.theme && !BUILTIN_THEMES.has(parsedConfig.theme);
-        const resolvedThemeVars = isCustomTheme
+      if (result.status === "error") {
+        console.error("Mermaid Render Error:", result.error);
+      }
+      setState((prev) =>
+        result.status === "error" && keepPreviousOnError && prev.svg
           ? {
-              ...mermaidThemes[parsedConfig.theme as MermaidCustomTheme],
-              ...parsedConfig.themeVariables,
+              ...result,
+              svg: prev.svg,
+              bindFunctions: prev.bindFunctions,
+              outline: prev.outline,
             }
-          : parsedConfig.themeVariables;
-
-        const explicitTheme = parsedConfig.theme as MermaidBuiltinTheme;
-        const resolvedMermaidTheme = isCustomTheme
-          ? "base"
-          : (!explicitTheme || explicitTheme === "default") &&
-              parsedConfig.darkMode
-            ? "dark"
-            : (explicitTheme ?? "default");
-
-        // Initialize Mermaid
-        // Note: startOnLoad must be false so we can manually render
-        mermaid.initialize({
-          startOnLoad: false,
-          theme: resolvedMermaidTheme,
-          themeVariables: resolvedThemeVars,
-          look: parsedConfig.look === "handdrawn" ? "handDrawn" : "classic",
-          flowchart: {
-            htmlLabels: parsedConfig.flowchart?.htmlLabels ?? true,
-            ...(parsedConfig.flowchart?.padding != null
-              ? { padding: parsedConfig.flowchart.padding }
-              : {}),
-          },
-          sequence: parsedConfig.sequence,
-          fontFamily: parsedConfig.fontFamily ?? "Inter, sans-serif",
-          fontSize: parsedConfig.fontSize ?? 14,
-          logLevel: parsedConfig.logLevel ?? "error",
-          securityLevel: "loose",
-        });
-
-        // Ensure we have a DOM node for calculation
-        if (!renderRef.current) return;
-        renderRef.current.innerHTML = "";
-
-        // Generate unique ID for this specific render cycle
-        const uniqueId = `mermaid-${id}-${Date.now()}`;
-
-        // Render
-        // We pass the ref as the container so Mermaid can calculate dimensions accurately
-        const { svg: svgOutput } = await mermaid.render(
-          uniqueId,
-          debouncedChart.trim(),
-          renderRef.current,
-        );
-
-        if (!isCancelled) {
-          setSvg(svgOutput);
-          setStatus("success");
-          // Clean up the calculation node to free memory
-          renderRef.current.innerHTML = "";
-        }
-      } catch (err) {
-        if (!isCancelled) {
-          const message =
-            err instanceof Error ? err.message : "Failed to render diagram";
-          console.error("Mermaid Render Error:", err);
-          setError(message);
-          setStatus("error");
-          setSvg(null);
-        }
-      }
+          : result,
+      );
+      // Clean up the calculation node to free memory
+      if (container) container.innerHTML = "";
     };
 
     render();
@@ -191,9 +1358,119 @@ function useMermaid({
     return () => {
       isCancelled = true;
     };
-  }, [debouncedChart, configString, id]);
+  }, [
+    debouncedChart,
+    configString,
+    lockString,
+    id,
+    renderKey,
+    shadcnThemeKey,
+    keepPreviousOnError,
+    title,
+    description,
+    onParseRef,
+    onConfigResolvedRef,
+  ]);
 
-  return { svg, error, status, renderRef };
+  return { ...state, rerender, renderRef };
+}
+
+/* -------------------------------------------------------------------------------------------------
+ * Suspense: useMermaidSuspense
+ * Render results are cached per chart and config, so every component reading the same diagram
+ * suspends on one shared promise and re-reads it synchronously once settled. Each instance then
+ * gets its own copy of the SVG's ids, and failed renders are dropped so a reset boundary retries.
+ * -----------------------------------------------------------------------------------------------*/
+
+// Oldest entries are evicted first; enough for a page of diagrams plus recent edits
+const SUSPENSE_CACHE_SIZE = 100;
+const suspenseCache = new Map<string, Promise<MermaidRenderState>>();
+
+function readMermaid(
+  chart: string,
+  config: MermaidConfig,
+  options: Pick<RenderMermaidOptions, "lockConfig" | "title" | "description">,
+  themeKey: string,
+): Promise<MermaidRenderState> {
+  const key = JSON.stringify([chart.trim(), config, options, themeKey]);
+  let promise = suspenseCache.get(key);
+  if (!promise) {
+    promise = renderOnce(chart, config, { id: "suspense", ...options });
+    suspenseCache.set(key, promise);
+    if (suspenseCache.size > SUSPENSE_CACHE_SIZE) {
+      suspenseCache.delete(suspenseCache.keys().next().value!);
+    }
+  }
+  return promise;
+}
+
+function evictMermaid(promise: Promise<MermaidRenderState>) {
+  // Deferred: React retries a throwing render once, synchronously, and that
+  // retry has to read the same settled promise instead of starting over
+  setTimeout(() => {
+    for (const [key, cached] of suspenseCache) {
+      if (cached === promise) suspenseCache.delete(key);
+    }
+  });
+}
+
+// The SVG id prefixes its scoped CSS, marker ids and aria references, so
+// renaming it everywhere keeps shared renders from colliding on the page
+function reIdSvg(svg: string, suffix: string): string {
+  const id = /^<svg\b[^>]*?\sid="([^"]+)"/.exec(svg)?.[1];
+  return id ? svg.replaceAll(id, `${id}-${suffix}`) : svg;
+}
+
+/**
+ * Suspends until the chart is rendered, then returns the successful state.
+ * Throws a `MermaidError` when the chart is invalid. Must be called inside a
+ * `<Suspense>` boundary; on the server it throws so the boundary's fallback
+ * is streamed and rendering is retried on the client.
+ */
+export function useMermaidSuspense({
+  chart,
+  config,
+  lockConfig,
+  title,
+  description,
+}: Pick<
+  UseMermaidOptions,
+  "chart" | "config" | "lockConfig" | "title" | "description"
+>): MermaidRenderState {
+  // Same layering as useMermaid: locks apply to prop values only
+  const providerConfig = React.useContext(MermaidConfigContext);
+  const shadcnThemeKey = useShadcnThemeKey(
+    (config?.theme ?? providerConfig.theme) === "shadcn",
+  );
+  const id = React.useId().replace(/:/g, "");
+
+  if (chart.trim() && typeof window === "undefined") {
+    throw new Error("Mermaid diagrams can only be rendered on the client");
+  }
+
+  const promise = chart.trim()
+    ? readMermaid(
+        chart,
+        mergeMermaidConfig(providerConfig, config),
+        {
+          lockConfig: getLockedKeys(config ?? {}, lockConfig),
+          title,
+          description,
+        },
+        shadcnThemeKey,
+      )
+    : null;
+  const state = promise ? React.use(promise) : IDLE_STATE;
+  const svg = React.useMemo(
+    () => state.svg && reIdSvg(state.svg, id),
+    [state.svg, id],
+  );
+
+  if (state.error) {
+    evictMermaid(promise!);
+    throw new MermaidError(state.error);
+  }
+  return svg === state.svg ? state : { ...state, svg };
 }
 
 /* -------------------------------------------------------------------------------------------------
@@ -216,6 +1493,282 @@ function useDebounce<T>(value: T, delay: number): T {
   return debouncedValue;
 }
 
+/* -------------------------------------------------------------------------------------------------
+ * Helper: useLatest
+ * -----------------------------------------------------------------------------------------------*/
+
+function useLatest<T>(value: T) {
+  const ref = React.useRef(value);
+
+  React.useEffect(() => {
+    ref.current = value;
+  }, [value]);
+
+  return ref;
+}
+
+/* -------------------------------------------------------------------------------------------------
+ * Helper: useShadcnThemeKey
+ * Snapshot of the shadcn-derived theme variables. Changes whenever the root element's class, style
+ * or data-theme does (e.g. a next-themes switch) and the derived colors differ as a result.
+ * -----------------------------------------------------------------------------------------------*/
+
+function readShadcnThemeKey() {
+  return JSON.stringify(getShadcnThemeVariables());
+}
+
+function useShadcnThemeKey(enabled: boolean) {
+  const [key, setKey] = React.useState(() =>
+    enabled ? readShadcnThemeKey() : "",
+  );
+
+  React.useEffect(() => {
+    if (!enabled) return;
+    setKey(readShadcnThemeKey());
+    const observer = new MutationObserver(() => setKey(readShadcnThemeKey()));
+    observer.observe(document.documentElement, {
+      attributes: true,
+      attributeFilter: ["class", "style", "data-theme"],
+    });
+    return () => observer.disconnect();
+  }, [enabled]);
+
+  return enabled ? key : "";
+}
+
+/* -------------------------------------------------------------------------------------------------
+ * Interaction
+ * Maps rendered SVG elements back to chart node IDs, and routes `click` directive callbacks (which
+ * mermaid looks up on `window`) to React handlers.
+ * -----------------------------------------------------------------------------------------------*/
+
+// DOM id formats mermaid uses per diagram type, e.g. "flowchart-A-3" or "state-Idle-0"
+const NODE_ID_PATTERNS = [
+  /^flowchart-(.+)-\d+$/,
+  /^classId-(.+)-\d+$/,
+  /^state-(.+?)(?:----\w+)?-\d+$/,
+  /^entity-(.+)-\d+$/,
+];
+
+/** Returns the chart-level node ID for a rendered node element, if any */
+export function getMermaidNodeId(element: Element): string | null {
+  const svgId = element.closest("svg")?.id;
+  let domId = element.id;
+  // Newer mermaid versions prefix node ids with the SVG id
+  if (svgId && domId.startsWith(`${svgId}-`)) {
+    domId = domId.slice(svgId.length + 1);
+  }
+  for (const pattern of NODE_ID_PATTERNS) {
+    const match = pattern.exec(domId);
+    if (match) return match[1];
+  }
+  return null;
+}
+
+function findNodeElement(target: EventTarget | null): Element | null {
+  if (!(target instanceof Element)) return null;
+  return target.closest("g.node");
+}
+
+function findEdgeElement(target: EventTarget | null): Element | null {
+  if (!(target instanceof Element)) return null;
+  const edge = target.closest('[data-edge="true"]');
+  if (edge) return edge;
+  // Edge labels carry the edge id in `data-id`
+  const labelId = target
+    .closest(".edgeLabel")
+    ?.querySelector("[data-id]")
+    ?.getAttribute("data-id");
+  const svg = target.closest("svg");
+  return labelId && svg
+    ? svg.querySelector(`[data-edge="true"][data-id="${CSS.escape(labelId)}"]`)
+    : null;
+}
+
+function getNodeIds(root: Element): Set<string> {
+  const ids = new Set<string>();
+  root.querySelectorAll("g.node").forEach((node) => {
+    const id = getMermaidNodeId(node);
+    if (id) ids.add(id);
+  });
+  return ids;
+}
+
+function resolveEdge(element: Element, nodeIds: Set<string>): MermaidEdgeRef {
+  const id = element.getAttribute("data-id") ?? element.id;
+  // Drop the "L" prefix first so a node named "L" can't match it
+  const parts = id.replace(/^L_/, "").split("_");
+
+  for (let start = 0; start < parts.length; start++) {
+    for (let end = parts.length; end > start + 1; end--) {
+      for (let mid = start + 1; mid < end; mid++) {
+        const source = parts.slice(start, mid).join("_");
+        const target = parts.slice(mid, end).join("_");
+        if (nodeIds.has(source) && nodeIds.has(target)) {
+          return { id, source, target };
+        }
+      }
+    }
+  }
+  return { id, source: null, target: null };
+}
+
+/**
+ * Resolves an edge element to its endpoints. Edge ids look like
+ * "L_<source>_<target>_<n>"; node IDs may contain underscores themselves, so
+ * candidate splits are checked against the node IDs present in the diagram.
+ */
+export function getMermaidEdge(element: Element): MermaidEdgeRef {
+  const svg = element.closest("svg");
+  return resolveEdge(element, svg ? getNodeIds(svg) : new Set());
+}
+
+const SELECTED_CLASS = "mermaidcn-selected";
+const HOVER_CLASS = "mermaidcn-hover";
+const HIGHLIGHT_CLASS = "mermaidcn-highlight";
+const DIMMED_CLASS = "mermaidcn-dimmed";
+
+// Outlines use !important to win over the inline styles mermaid emits
+const INTERACTION_STYLES = [
+  "[&_.mermaidcn-hover]:opacity-80",
+  "[&_:is(.mermaidcn-selected,.mermaidcn-highlight)_:is(rect,circle,ellipse,polygon,path)]:stroke-primary!",
+  "[&_:is(.mermaidcn-selected,.mermaidcn-highlight)_:is(rect,circle,ellipse,polygon,path)]:stroke-[3px]!",
+  "[&_path.mermaidcn-highlight]:stroke-primary! [&_path.mermaidcn-highlight]:stroke-[3px]!",
+  "[&_.mermaidcn-dimmed]:opacity-25 [&_.mermaidcn-dimmed]:transition-opacity",
+  "[&_g.node]:outline-none [&_g.node:focus-visible_:is(rect,circle,ellipse,polygon,path)]:stroke-ring! [&_g.node:focus-visible_:is(rect,circle,ellipse,polygon,path)]:stroke-[3px]!",
+].join(" ");
+
+function toggleNodeClass(root: Element, className: string, ids: Set<string>) {
+  root.querySelectorAll("g.node").forEach((node) => {
+    const id = getMermaidNodeId(node);
+    node.classList.toggle(className, id !== null && ids.has(id));
+  });
+}
+
+/** Applies a highlight to the SVG under `root` and returns a function that undoes it */
+function applyHighlight(root: Element, highlight: MermaidHighlight) {
+  const nodes = new Set(highlight.nodes ?? []);
+  const edges = new Set(
+    (highlight.edges ?? []).map(([source, target]) => `${source}\n${target}`),
+  );
+  const style = highlight.style ?? "emphasize";
+  const matchClasses =
+    style === "emphasize" || style === "dim-others"
+      ? [HIGHLIGHT_CLASS]
+      : style.split(/\s+/).filter(Boolean);
+  const added: [Element, string[]][] = [];
+
+  const mark = (element: Element, isMatch: boolean) => {
+    const classes = isMatch
+      ? matchClasses
+      : style === "dim-others"
+        ? [DIMMED_CLASS]
+        : [];
+    const fresh = classes.filter((c) => !element.classList.contains(c));
+    if (!fresh.length) return;
+    element.classList.add(...fresh);
+    added.push([element, fresh]);
+  };
+
+  root.querySelectorAll("g.node").forEach((node) => {
+    const id = getMermaidNodeId(node);
+    mark(node, id !== null && nodes.has(id));
+  });
+
+  const nodeIds = getNodeIds(root);
+  root.querySelectorAll('[data-edge="true"]').forEach((path) => {
+    const edge = resolveEdge(path, nodeIds);
+    const isMatch = edges.has(`${edge.source}\n${edge.target}`);
+    mark(path, isMatch);
+    // Edge labels live in a separate group, linked by the edge id
+    root
+      .querySelectorAll(`.edgeLabel [data-id="${CSS.escape(edge.id)}"]`)
+      .forEach((label) => mark(label.closest(".edgeLabel") ?? label, isMatch));
+  });
+
+  return () => {
+    added.forEach(([element, classes]) => element.classList.remove(...classes));
+  };
+}
+
+const callbackRegistry = new Map<string, MermaidCallback[]>();
+
+function registerCallback(name: string, callback: MermaidCallback) {
+  const globals = window as unknown as Record<string, unknown>;
+  const handlers = callbackRegistry.get(name) ?? [];
+  handlers.push(callback);
+  callbackRegistry.set(name, handlers);
+
+  // The most recently mounted diagram wins when names collide
+  globals[name] = (...args: string[]) =>
+    callbackRegistry.get(name)?.at(-1)?.(...args);
+
+  return () => {
+    const remaining = (callbackRegistry.get(name) ?? []).filter(
+      (handler) => handler !== callback,
+    );
+    if (remaining.length) {
+      callbackRegistry.set(name, remaining);
+    } else {
+      callbackRegistry.delete(name);
+      delete globals[name];
+    }
+  };
+}
+
+/** Nodes that map back to a chart ID, in document order */
+function getFocusableNodes(root: Element): SVGGElement[] {
+  return Array.from(root.querySelectorAll<SVGGElement>("g.node")).filter(
+    (node) => getMermaidNodeId(node) !== null,
+  );
+}
+
+const ARROW_DIRECTIONS: Record<string, [number, number]> = {
+  ArrowRight: [1, 0],
+  ArrowLeft: [-1, 0],
+  ArrowDown: [0, 1],
+  ArrowUp: [0, -1],
+};
+
+/**
+ * Picks the node an arrow key moves to: the nearest one in that direction,
+ * with sideways distance weighted double so movement stays in line.
+ */
+function findAdjacentNode(
+  nodes: SVGGElement[],
+  from: Element,
+  key: string,
+): SVGGElement | null {
+  if (key === "Home") return nodes[0] ?? null;
+  if (key === "End") return nodes[nodes.length - 1] ?? null;
+  const direction = ARROW_DIRECTIONS[key];
+  if (!direction) return null;
+
+  const center = (element: Element) => {
+    const rect = element.getBoundingClientRect();
+    return { x: rect.x + rect.width / 2, y: rect.y + rect.height / 2 };
+  };
+  const origin = center(from);
+
+  let closest: SVGGElement | null = null;
+  let closestScore = Infinity;
+  for (const node of nodes) {
+    if (node === from) continue;
+    const { x, y } = center(node);
+    const along = (x - origin.x) * direction[0] + (y - origin.y) * direction[1];
+    const across = Math.abs(
+      (x - origin.x) * direction[1] - (y - origin.y) * direction[0],
+    );
+    if (along <= 0) continue;
+    const score = along + across * 2;
+    if (score < closestScore) {
+      closest = node;
+      closestScore = score;
+    }
+  }
+  return closest;
+}
+
 /* -------------------------------------------------------------------------------------------------
  * Component: Mermaid
  * -----------------------------------------------------------------------------------------------*/
@@ -224,15 +1777,37 @@ export function Mermaid({
   chart,
   config,
   className,
+  title,
+  description,
   onError,
   onSuccess,
+  onParse,
+  lockConfig,
+  onConfigResolved,
   debounceTime = 300,
+  keepPreviousOnError = false,
+  renderLoading = () => <MermaidLoadingState />,
+  renderError = (error) => <MermaidErrorPanel error={error} />,
+  renderEmpty = () => <MermaidEmptyState />,
+  ...interaction
 }: MermaidProps) {
-  const { svg, error, status, renderRef } = useMermaid({
-    chart,
-    config,
-    debounceTime,
-  });
+  const { svg, error, status, bindFunctions, outline, diagramType, renderRef } =
+    useMermaid({
+      chart,
+      config,
+      debounceTime,
+      onParse,
+      lockConfig,
+      onConfigResolved,
+      keepPreviousOnError,
+      title,
+      description,
+    });
+
+  // An error can only sit next to an SVG when keepPreviousOnError kept the last good one,
+  // including while the next edit renders, so the dim and the badge don't blink
+  const isStale = !!error && !!svg;
+  const showOutput = !!svg && (status === "success" || keepPreviousOnError);
 
   // Propagate events to parent
   React.useEffect(() => {
@@ -243,12 +1818,18 @@ export function Mermaid({
   return (
     <div className={cn("relative w-full min-h-[100px]", className)}>
       {/* 1. Visible Output Container */}
-      {status === "success" && svg && (
-        <div
-          className="flex items-center justify-center w-full h-full overflow-auto animate-in fade-in duration-300 [&_svg]:max-w-full [&_svg]:h-auto"
-          dangerouslySetInnerHTML={{ __html: svg }}
-          role="img"
-          aria-label="Mermaid diagram"
+      {showOutput && (
+        <MermaidOutput
+          svg={svg}
+          bindFunctions={bindFunctions}
+          outline={outline}
+          diagramType={diagramType}
+          title={title}
+          className={cn(
+            "transition-opacity",
+            isStale && "opacity-40 grayscale",
+          )}
+          {...interaction}
         />
       )}
 
@@ -262,40 +1843,382 @@ export function Mermaid({
       />
 
       {/* 3. Loading State */}
-      {status === "loading" && (
-        <div className="absolute inset-0 flex items-center justify-center bg-background/50 backdrop-blur-[1px]">
-          <div className="flex flex-col items-center gap-3">
-            <div className="w-5 h-5 border-2 border-primary rounded-full animate-spin border-t-transparent" />
-            <span className="text-xs text-muted-foreground font-medium">
-              Rendering...
-            </span>
-          </div>
-        </div>
-      )}
+      {status === "loading" && !showOutput && renderLoading()}
 
       {/* 4. Error State */}
-      {status === "error" && error && (
-        <div className="flex items-center justify-center w-full p-6 border border-destructive/20 bg-destructive/5 rounded-lg">
-          <div className="flex flex-col items-center gap-2 max-w-md text-center">
-            <span className="text-xs font-bold text-destructive uppercase tracking-wider">
-              Syntax Error
-            </span>
-            <code className="text-xs text-muted-foreground font-mono bg-background/50 px-2 py-1 rounded w-full break-all">
-              {error.split("\n")[0]}{" "}
-              {/* Show only first line of error for brevity */}
-            </code>
-          </div>
-        </div>
+      {isStale ? (
+        <MermaidErrorBadge error={error}>
+          {renderError(error, chart)}
+        </MermaidErrorBadge>
+      ) : (
+        status === "error" && error && renderError(error, chart)
       )}
 
       {/* 5. Idle State */}
-      {status === "idle" && (
-        <div className="flex items-center justify-center w-full h-full min-h-[150px] border-2 border-dashed rounded-lg border-muted-foreground/20">
-          <p className="text-sm text-muted-foreground">
-            No diagram code provided
-          </p>
-        </div>
+      {status === "idle" && renderEmpty()}
+    </div>
+  );
+}
+
+/* -------------------------------------------------------------------------------------------------
+ * Component: MermaidSuspense
+ * Suspends while mermaid loads and renders, and throws `MermaidError` to the nearest error
+ * boundary, so loading and failure UI belong to the surrounding `<Suspense>` tree.
+ * -----------------------------------------------------------------------------------------------*/
+
+export function MermaidSuspense({
+  chart,
+  config,
+  className,
+  title,
+  description,
+  onSuccess,
+  lockConfig,
+  renderEmpty = () => <MermaidEmptyState />,
+  ...interaction
+}: MermaidSuspenseProps) {
+  const { svg, bindFunctions, outline, diagramType } = useMermaidSuspense({
+    chart,
+    config,
+    lockConfig,
+    title,
+    description,
+  });
+
+  React.useEffect(() => {
+    if (svg) onSuccess?.(svg);
+  }, [svg, onSuccess]);
+
+  return (
+    <div className={cn("relative w-full min-h-[100px]", className)}>
+      {svg ? (
+        <MermaidOutput
+          svg={svg}
+          bindFunctions={bindFunctions}
+          outline={outline}
+          diagramType={diagramType}
+          title={title}
+          {...interaction}
+        />
+      ) : (
+        renderEmpty()
       )}
     </div>
   );
 }
+
+/* -------------------------------------------------------------------------------------------------
+ * Component: MermaidOutput
+ * The rendered SVG plus everything layered on it: mermaid's own listeners, `callbacks`, selection,
+ * highlight, pointer and keyboard events, and the screen-reader outline. Shared by `<Mermaid>` and
+ * `<MermaidSuspense>`.
+ * -----------------------------------------------------------------------------------------------*/
+
+type MermaidOutputProps = Pick<
+  MermaidProps,
+  | "onNodeClick"
+  | "onNodeHover"
+  | "onEdgeHover"
+  | "selectedNodeIds"
+  | "highlight"
+  | "callbacks"
+  | "title"
+> &
+  Pick<MermaidRenderState, "bindFunctions" | "outline" | "diagramType"> & {
+    svg: string;
+    className?: string;
+  };
+
+function MermaidOutput({
+  svg,
+  bindFunctions,
+  outline,
+  diagramType,
+  title,
+  className,
+  onNodeClick,
+  onNodeHover,
+  onEdgeHover,
+  selectedNodeIds,
+  highlight,
+  callbacks,
+}: MermaidOutputProps) {
+  // Attach mermaid's own listeners (click directives, tooltips) once the SVG is in the DOM
+  const outputRef = React.useRef<HTMLDivElement>(null);
+  React.useEffect(() => {
+    if (outputRef.current) bindFunctions?.(outputRef.current);
+  }, [svg, bindFunctions]);
+
+  // Expose `callbacks` under their names while mounted
+  const callbacksRef = useLatest(callbacks);
+  const callbackNames = Object.keys(callbacks ?? {})
+    .sort()
+    .join(",");
+  React.useEffect(() => {
+    if (!callbackNames) return;
+    const unregister = callbackNames
+      .split(",")
+      .map((name) =>
+        registerCallback(name, (...args) =>
+          callbacksRef.current?.[name]?.(...args),
+        ),
+      );
+    return () => unregister.forEach((fn) => fn());
+  }, [callbackNames, callbacksRef]);
+
+  const handleClick = (event: React.MouseEvent<HTMLDivElement>) => {
+    if (!onNodeClick) return;
+    const node = findNodeElement(event.target);
+    const nodeId = node && getMermaidNodeId(node);
+    if (nodeId) onNodeClick(nodeId, event);
+  };
+
+  // Reflect the controlled selection on the rendered SVG
+  const selectedKey = (selectedNodeIds ?? []).join("\n");
+  React.useEffect(() => {
+    if (!outputRef.current) return;
+    toggleNodeClass(
+      outputRef.current,
+      SELECTED_CLASS,
+      new Set(selectedKey ? selectedKey.split("\n") : []),
+    );
+  }, [svg, selectedKey]);
+
+  // Layer the highlight over the SVG; no re-render or re-layout needed
+  const highlightKey = highlight ? JSON.stringify(highlight) : "";
+  React.useEffect(() => {
+    if (!outputRef.current || !highlightKey) return;
+    return applyHighlight(outputRef.current, JSON.parse(highlightKey));
+  }, [svg, highlightKey]);
+
+  // One tab stop for the whole diagram; arrow keys move between nodes from there
+  const isClickable = !!onNodeClick;
+  React.useEffect(() => {
+    if (!outputRef.current) return;
+    getFocusableNodes(outputRef.current).forEach((node, i) => {
+      node.setAttribute("tabindex", i === 0 ? "0" : "-1");
+      node.setAttribute("role", isClickable ? "button" : "img");
+      node.setAttribute(
+        "aria-label",
+        node.textContent?.trim() || getMermaidNodeId(node)!,
+      );
+    });
+  }, [svg, isClickable]);
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLDivElement>) => {
+    const node = findNodeElement(event.target);
+    if (!node || !outputRef.current) return;
+
+    // Route through the click path so onNodeClick and click directives both fire
+    if (event.key === "Enter" || event.key === " ") {
+      event.preventDefault();
+      node.dispatchEvent(new MouseEvent("click", { bubbles: true }));
+      return;
+    }
+
+    const next = findAdjacentNode(
+      getFocusableNodes(outputRef.current),
+      node,
+      event.key,
+    );
+    if (!next) return;
+    event.preventDefault();
+    node.setAttribute("tabindex", "-1");
+    next.setAttribute("tabindex", "0");
+    next.focus();
+  };
+
+  // Track hover targets so callbacks fire once per enter/leave, not per child element
+  const hoveredNodeRef = React.useRef<Element | null>(null);
+  const hoveredEdgeRef = React.useRef<Element | null>(null);
+
+  const handlePointerOver = (event: React.PointerEvent<HTMLDivElement>) => {
+    const node = findNodeElement(event.target);
+    if (node !== hoveredNodeRef.current) {
+      hoveredNodeRef.current?.classList.remove(HOVER_CLASS);
+      node?.classList.add(HOVER_CLASS);
+      hoveredNodeRef.current = node;
+      onNodeHover?.(node && getMermaidNodeId(node), event);
+    }
+
+    const edge = node ? null : findEdgeElement(event.target);
+    if (edge !== hoveredEdgeRef.current) {
+      hoveredEdgeRef.current?.classList.remove(HOVER_CLASS);
+      edge?.classList.add(HOVER_CLASS);
+      hoveredEdgeRef.current = edge;
+      onEdgeHover?.(edge && getMermaidEdge(edge), event);
+    }
+  };
+
+  const handlePointerLeave = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (hoveredNodeRef.current) {
+      hoveredNodeRef.current.classList.remove(HOVER_CLASS);
+      hoveredNodeRef.current = null;
+      onNodeHover?.(null, event);
+    }
+    if (hoveredEdgeRef.current) {
+      hoveredEdgeRef.current.classList.remove(HOVER_CLASS);
+      hoveredEdgeRef.current = null;
+      onEdgeHover?.(null, event);
+    }
+  };
+
+  return (
+    <>
+      <div
+        ref={outputRef}
+        className={cn(
+          "flex items-center justify-center w-full h-full overflow-auto animate-in fade-in duration-300 [&_svg]:max-w-full [&_svg]:h-auto",
+          INTERACTION_STYLES,
+          onNodeClick && "[&_g.node]:cursor-pointer",
+          className,
+        )}
+        onClick={handleClick}
+        onKeyDown={handleKeyDown}
+        onPointerOver={handlePointerOver}
+        onPointerLeave={handlePointerLeave}
+        dangerouslySetInnerHTML={{ __html: svg }}
+        role="figure"
+        aria-label={title ?? "Mermaid diagram"}
+      />
+      {outline && (
+        <MermaidOutlineText outline={outline} diagramType={diagramType} />
+      )}
+    </>
+  );
+}
+
+/* -------------------------------------------------------------------------------------------------
+ * Default slots
+ * -----------------------------------------------------------------------------------------------*/
+
+function MermaidLoadingState() {
+  return (
+    <div className="absolute inset-0 flex items-center justify-center bg-background/50 backdrop-blur-[1px]">
+      <div className="flex flex-col items-center gap-3">
+        <div className="w-5 h-5 border-2 border-primary rounded-full animate-spin border-t-transparent" />
+        <span className="text-xs text-muted-foreground font-medium">
+          Rendering...
+        </span>
+      </div>
+    </div>
+  );
+}
+
+function MermaidEmptyState() {
+  return (
+    <div className="flex items-center justify-center w-full h-full min-h-[150px] border-2 border-dashed rounded-lg border-muted-foreground/20">
+      <p className="text-sm text-muted-foreground">No diagram code provided</p>
+    </div>
+  );
+}
+
+/* -------------------------------------------------------------------------------------------------
+ * Component: MermaidErrorPanel
+ * Shows the failing source line(s) with a caret under the offending token.
+ * -----------------------------------------------------------------------------------------------*/
+
+const EXCERPT_CONTEXT_LINES = 1;
+
+export function MermaidErrorPanel({ error }: { error: MermaidRenderError }) {
+  const lines = error.source.split("\n");
+  const errorLine =
+    error.line !== null && error.line >= 1 && error.line <= lines.length
+      ? error.line
+      : null;
+
+  // Prefer mermaid's "Expecting ..., got ..." line; it is the most actionable part
+  const messageLines = error.message.split("\n").filter(Boolean);
+  const summary =
+    messageLines.find((l) => l.startsWith("Expecting")) ?? messageLines[0];
+
+  const from = errorLine ? Math.max(1, errorLine - EXCERPT_CONTEXT_LINES) : 0;
+  const to = errorLine
+    ? Math.min(lines.length, errorLine + EXCERPT_CONTEXT_LINES)
+    : -1;
+  const gutterWidth = String(to).length;
+
+  return (
+    <div className="flex items-center justify-center w-full p-6 border border-destructive/20 bg-destructive/5 rounded-lg">
+      <div className="flex flex-col items-center gap-2 max-w-md w-full text-center">
+        <span className="text-xs font-bold text-destructive uppercase tracking-wider">
+          Syntax Error
+          {errorLine !== null &&
+            ` · Line ${errorLine}${error.column !== null ? `:${error.column}` : ""}`}
+        </span>
+        <code className="text-xs text-muted-foreground font-mono bg-background/50 px-2 py-1 rounded w-full break-all">
+          {summary}
+        </code>
+        {errorLine !== null && (
+          <pre
+            className="text-xs text-left font-mono bg-background/50 px-2 py-1 rounded w-full overflow-x-auto"
+            aria-label={`Source excerpt around line ${errorLine}`}
+          >
+            {lines.slice(from - 1, to).map((text, i) => {
+              const lineNumber = from + i;
+              const gutter = `${String(lineNumber).padStart(gutterWidth)} | `;
+              return (
+                <React.Fragment key={lineNumber}>
+                  <span
+                    className={
+                      lineNumber === errorLine
+                        ? "text-foreground"
+                        : "text-muted-foreground"
+                    }
+                  >
+                    {gutter}
+                    {text}
+                  </span>
+                  {"\n"}
+                  {lineNumber === errorLine && error.column !== null && (
+                    <span className="text-destructive">
+                      {" ".repeat(gutter.length + error.column - 1)}
+                      {"^".repeat(error.length)}
+                      {"\n"}
+                    </span>
+                  )}
+                </React.Fragment>
+              );
+            })}
+          </pre>
+        )}
+      </div>
+    </div>
+  );
+}
+
+/* -------------------------------------------------------------------------------------------------
+ * Component: MermaidErrorBadge
+ * Non-blocking error indicator for `keepPreviousOnError`. Collapsed it only names the failing line;
+ * expanded it shows the full details.
+ * -----------------------------------------------------------------------------------------------*/
+
+export function MermaidErrorBadge({
+  error,
+  children,
+  className,
+}: {
+  error: MermaidRenderError;
+  /** Expanded details. Defaults to `MermaidErrorPanel` */
+  children?: React.ReactNode;
+  className?: string;
+}) {
+  return (
+    <details
+      className={cn(
+        "absolute bottom-2 left-2 z-10 max-w-[calc(100%-1rem)] rounded-md border border-destructive/30 bg-background/95 text-xs shadow-sm backdrop-blur-sm",
+        className,
+      )}
+    >
+      <summary className="flex cursor-pointer list-none items-center gap-1.5 px-2 py-1 font-medium text-destructive [&::-webkit-details-marker]:hidden">
+        <span className="size-1.5 shrink-0 rounded-full bg-destructive" />
+        Syntax Error
+        {error.line !== null &&
+          ` · Line ${error.line}${error.column !== null ? `:${error.column}` : ""}`}
+      </summary>
+      <div className="max-h-64 w-96 max-w-full overflow-auto p-2 pt-0">
+        {children ?? <MermaidErrorPanel error={error} />}
+      </div>
+    </details>
+  );
+}
@@ -0,0 +1,278 @@
+/** An sRGB color with channels in 0-255 and alpha in 0-1 */
+export interface RgbaColor {
+  r: number
+  g: number
+  b: number
+  a: number
+}
+
+/** Hue in degrees, saturation, lightness and alpha in 0-1 */
+export interface HslColor {
+  h: number
+  s: number
+  l: number
+  a: number
+}
+
+const clamp = (value: number, min = 0, max = 1) =>
+  Math.min(max, Math.max(min, value))
+
+/* -------------------------------------------------------------------------------------------------
+ * Parsing
+ * Accepts the formats shadcn tokens are written in: hex, rgb(), hsl(), oklch(), oklab(), and the
+ * bare "H S% L%" triplets used by shadcn/ui before Tailwind v4.
+ * -----------------------------------------------------------------------------------------------*/
+
+// A number, optionally a percentage, or `none` (treated as 0)
+function parseComponent(token: string | undefined, percentScale = 1) {
+  if (!token || token === "none") return 0
+  const value = parseFloat(token)
+  if (Number.isNaN(value)) return NaN
+  return token.endsWith("%") ? (value / 100) * percentScale : value
+}
+
+function parseAlpha(token: string | undefined) {
+  return token === undefined ? 1 : clamp(parseComponent(token, 1))
+}
+
+function parseHex(hex: string): RgbaColor | null {
+  const digits =
+    hex.length <= 5 ? hex.replace(/./g, (c) => c + c) : hex.padEnd(8, "f")
+  if (!/^[0-9a-f]{6,8}$/i.test(digits)) return null
+  const channel = (i: number) => parseInt(digits.slice(i, i + 2), 16)
+  return {
+    r: channel(0),
+    g: channel(2),
+    b: channel(4),
+    a: digits.length === 8 ? channel(6) / 255 : 1,
+  }
+}
+
+export function hslToRgb({ h, s, l, a }: HslColor): RgbaColor {
+  const hue = ((h % 360) + 360) % 360
+  const f = (n: number) => {
+    const k = (n + hue / 30) % 12
+    return l - s * Math.min(l, 1 - l) * Math.max(-1, Math.min(k - 3, 9 - k, 1))
+  }
+  return { r: f(0) * 255, g: f(8) * 255, b: f(4) * 255, a }
+}
+
+export function rgbToHsl({ r, g, b, a }: RgbaColor): HslColor {
+  const [red, green, blue] = [r / 255, g / 255, b / 255]
+  const max = Math.max(red, green, blue)
+  const min = Math.min(red, green, blue)
+  const l = (max + min) / 2
+  const d = max - min
+  if (d === 0) return { h: 0, s: 0, l, a }
+
+  const s = d / (1 - Math.abs(2 * l - 1))
+  const h =
+    max === red
+      ? ((green - blue) / d) % 6
+      : max === green
+        ? (blue - red) / d + 2
+        : (red - green) / d + 4
+  return { h: (h * 60 + 360) % 360, s, l, a }
+}
+
+function oklabToRgb(L: number, A: number, B: number, alpha: number) {
+  const l = (L + 0.3963377774 * A + 0.2158037573 * B) ** 3
+  const m = (L - 0.1055613458 * A - 0.0638541728 * B) ** 3
+  const s = (L - 0.0894841775 * A - 1.291485548 * B) ** 3
+
+  const gamma = (c: number) =>
+    clamp(c <= 0.0031308 ? 12.92 * c : 1.055 * c ** (1 / 2.4) - 0.055) * 255
+
+  return {
+    r: gamma(4.0767416621 * l - 3.3077115913 * m + 0.2309699292 * s),
+    g: gamma(-1.2684380046 * l + 2.6097574011 * m - 0.3413193965 * s),
+    b: gamma(-0.0041960863 * l - 0.7034186147 * m + 1.707614701 * s),
+    a: alpha,
+  }
+}
+
+/** Parses a CSS color string. Returns `null` for anything it doesn't understand */
+export function parseColor(value: string): RgbaColor | null {
+  const input = value.trim().toLowerCase()
+  if (input.startsWith("#")) return parseHex(input.slice(1))
+
+  const match = input.match(/^([a-z]+)\((.*)\)$/)
+  const fn = match ? match[1] : "hsl"
+  const body = match ? match[2] : input
+  const [channels, alphaToken] = body.split("/").map((part) => part.trim())
+  const [c1, c2, c3, legacyAlpha] = channels.split(/[\s,]+/)
+  const alpha = parseAlpha(alphaToken ?? legacyAlpha)
+
+  let color: RgbaColor | null = null
+  switch (fn) {
+    case "rgb":
+    case "rgba":
+      color = {
+        r: parseComponent(c1, 255),
+        g: parseComponent(c2, 255),
+        b: parseComponent(c3, 255),
+        a: alpha,
+      }
+      break
+    case "hsl":
+    case "hsla":
+      color = hslToRgb({
+        h: parseComponent(c1),
+        s: parseComponent(c2?.endsWith("%") ? c2 : `${c2}%`),
+        l: parseComponent(c3?.endsWith("%") ? c3 : `${c3}%`),
+        a: alpha,
+      })
+      break
+    case "oklch": {
+      const hue = (parseComponent(c3) * Math.PI) / 180
+      const chroma = parseComponent(c2, 0.4)
+      color = oklabToRgb(
+        parseComponent(c1, 1),
+        chroma * Math.cos(hue),
+        chroma * Math.sin(hue),
+        alpha
+      )
+      break
+    }
+    case "oklab":
+      color = oklabToRgb(
+        parseComponent(c1, 1),
+        parseComponent(c2, 0.4),
+        parseComponent(c3, 0.4),
+        alpha
+      )
+      break
+  }
+
+  if (!color || [color.r, color.g, color.b].some(Number.isNaN)) return null
+  return color
+}
+
+/* -------------------------------------------------------------------------------------------------
+ * Formatting
+ * -----------------------------------------------------------------------------------------------*/
+
+/** Blends a translucent color over an opaque backdrop */
+export function compositeColor(
+  color: RgbaColor,
+  backdrop: RgbaColor
+): RgbaColor {
+  const mix = (front: number, back: number) =>
+    front * color.a + back * (1 - color.a)
+  return {
+    r: mix(color.r, backdrop.r),
+    g: mix(color.g, backdrop.g),
+    b: mix(color.b, backdrop.b),
+    a: 1,
+  }
+}
+
+/** Formats as `#rrggbb`, or `#rrggbbaa` when translucent */
+export function formatHex({ r, g, b, a }: RgbaColor): string {
+  const channels = a < 1 ? [r, g, b, a * 255] : [r, g, b]
+  return `#${channels
+    .map((c) =>
+      Math.round(clamp(c, 0, 255))
+        .toString(16)
+        .padStart(2, "0")
+    )
+    .join("")}`
+}
+
+/** Converts any color `parseColor` understands to hex, e.g. for mermaid theme variables */
+export function toHex(value: string): string | null {
+  const color = parseColor(value)
+  return color && formatHex(color)
+}
+
+/* -------------------------------------------------------------------------------------------------
+ * Contrast
+ * WCAG 2.x relative luminance and contrast ratio.
+ * -----------------------------------------------------------------------------------------------*/
+
+// Backgrounds brighter than this get dark text: black and white contrast equally here
+const LUMINANCE_MIDPOINT = 0.179
+
+export function relativeLuminance({ r, g, b }: RgbaColor): number {
+  const channel = (c: number) => {
+    const value = c / 255
+    return value <= 0.04045 ? value / 12.92 : ((value + 0.055) / 1.055) ** 2.4
+  }
+  return 0.2126 * channel(r) + 0.7152 * channel(g) + 0.0722 * channel(b)
+}
+
+/** Contrast ratio from 1 to 21. `NaN` when either color can't be parsed */
+export function contrastRatio(foreground: string, background: string): number {
+  const fg = parseColor(foreground)
+  const bg = parseColor(background)
+  if (!fg || !bg) return NaN
+  const [lighter, darker] = [relativeLuminance(fg), relativeLuminance(bg)].sort(
+    (x, y) => y - x
+  )
+  return (lighter + 0.05) / (darker + 0.05)
+}
+
+/**
+ * Returns `color`, or the closest color with the same hue and saturation that
+ * reaches `minRatio` against `background`, by moving its lightness away from
+ * the background's. Falls back to black or white.
+ */
+export function ensureContrast(
+  color: string,
+  background: string,
+  minRatio = 4.5
+): string {
+  const fg = parseColor(color)
+  const bg = parseColor(background)
+  if (!fg || !bg || contrastRatio(color, background) >= minRatio) return color
+
+  const hsl = rgbToHsl(fg)
+  const step = relativeLuminance(bg) > LUMINANCE_MIDPOINT ? -0.02 : 0.02
+  for (let l = hsl.l + step; l >= 0 && l <= 1; l += step) {
+    const candidate = formatHex(hslToRgb({ ...hsl, l, a: 1 }))
+    if (contrastRatio(candidate, background) >= minRatio) return candidate
+  }
+  return step < 0 ? "#000000" : "#ffffff"
+}
+
+/** Whether dark text reads better than light text on `background` */
+export function isLightColor(background: string): boolean {
+  const color = parseColor(background)
+  return !!color && relativeLuminance(color) > LUMINANCE_MIDPOINT
+}
+
+/* -------------------------------------------------------------------------------------------------
+ * Color vision
+ * Full-severity dichromacy matrices from Machado, Oliveira & Fernandes (2009). They operate on
+ * linear RGB, which is also the default color space of SVG `feColorMatrix`.
+ * -----------------------------------------------------------------------------------------------*/
+
+export type ColorVisionDeficiency = "protanopia" | "deuteranopia" | "tritanopia"
+
+export const colorVisionMatrices: Record<ColorVisionDeficiency, number[]> = {
+  protanopia: [
+    0.152286, 1.052583, -0.204868, 0.114503, 0.786281, 0.099216, -0.003882,
+    -0.048116, 1.051998,
+  ],
+  deuteranopia: [
+    0.367322, 0.860646, -0.227968, 0.280085, 0.672501, 0.047413, -0.01182,
+    0.04294, 0.968881,
+  ],
+  tritanopia: [
+    1.255528, -0.076749, -0.178779, -0.078411, 0.930809, 0.147602, 0.004733,
+    0.691367, 0.3039,
+  ],
+}
+
+/** The 4x5 `values` of an SVG `<feColorMatrix type="matrix">` simulating `deficiency` */
+export function toFeColorMatrix(deficiency: ColorVisionDeficiency): string {
+  const m = colorVisionMatrices[deficiency]
+  return [
+    [m[0], m[1], m[2], 0, 0],
+    [m[3], m[4], m[5], 0, 0],
+    [m[6], m[7], m[8], 0, 0],
+    [0, 0, 0, 1, 0],
+  ]
+    .map((row) => row.join(" "))
+    .join(" ")
+}
@@ -0,0 +1,108 @@
+import { dynamicIconImports } from "lucide-react/dynamic"
+import type { IconNode } from "lucide-react"
+
+/** An icon set in Iconify JSON format, as accepted by mermaid */
+export interface MermaidIconSet {
+  prefix: string
+  icons: Record<string, { body: string; width?: number; height?: number }>
+  width?: number
+  height?: number
+}
+
+/** An icon set that can be passed inline through `MermaidConfig.iconPacks` */
+export interface MermaidInlineIconPack {
+  name: string
+  icons: MermaidIconSet
+}
+
+export type MermaidIconPack =
+  | MermaidInlineIconPack
+  | { name: string; loader: () => Promise<MermaidIconSet> }
+
+/** Packs enabled when `MermaidConfig.iconPacks` is not set */
+export const defaultIconPacks = ["lucide"]
+
+const iconPackRegistry = new Map<string, MermaidIconPack>()
+
+/**
+ * Registers an icon pack at runtime. Charts reference its icons as
+ * `<name>:<icon>` once the pack name is listed in `MermaidConfig.iconPacks`.
+ */
+export function registerMermaidIconPack(pack: MermaidIconPack) {
+  iconPackRegistry.set(pack.name, pack)
+}
+
+/* -------------------------------------------------------------------------------------------------
+ * Lucide
+ * Icons are loaded through lucide-react's per-icon dynamic imports, and only the ones a chart
+ * actually references, so the pack costs nothing until used.
+ * -----------------------------------------------------------------------------------------------*/
+
+type LucideIconName = keyof typeof dynamicIconImports
+
+const lucideBodies = new Map<string, string>()
+
+function toIconBody(iconNode: IconNode) {
+  const children = iconNode
+    .map(([tag, attrs]) => {
+      const attributes = Object.entries(attrs)
+        .filter(([name]) => name !== "key")
+        .map(
+          ([name, value]) =>
+            `${name.replace(/[A-Z]/g, (c) => `-${c.toLowerCase()}`)}="${value}"`
+        )
+        .join(" ")
+      return `<${tag} ${attributes}/>`
+    })
+    .join("")
+  // Lucide's default SVG attributes, so icons match the shadcn UI
+  return `<g fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round">${children}</g>`
+}
+
+async function loadLucideIcons(source: string): Promise<MermaidIconSet> {
+  const names = new Set(
+    Array.from(source.matchAll(/\blucide:([a-z0-9-]+)/g), (m) => m[1])
+  )
+
+  await Promise.all(
+    Array.from(names, async (name) => {
+      if (lucideBodies.has(name) || !(name in dynamicIconImports)) return
+      const mod = await dynamicIconImports[name as LucideIconName]()
+      lucideBodies.set(name, toIconBody(mod.__iconNode))
+    })
+  )
+
+  return {
+    prefix: "lucide",
+    width: 24,
+    height: 24,
+    icons: Object.fromEntries(
+      Array.from(lucideBodies, ([name, body]) => [name, { body }])
+    ),
+  }
+}
+
+/**
+ * Resolves configured pack names and inline packs into the loaders mermaid's
+ * `registerIconPacks` expects. Unknown names are skipped with a warning.
+ */
+export async function resolveMermaidIconPacks(
+  packs: (string | MermaidInlineIconPack)[],
+  source: string
+): Promise<MermaidIconPack[]> {
+  const resolved: MermaidIconPack[] = []
+
+  for (const pack of packs) {
+    if (typeof pack !== "string") {
+      resolved.push(pack)
+    } else if (iconPackRegistry.has(pack)) {
+      resolved.push(iconPackRegistry.get(pack)!)
+    } else if (pack === "lucide") {
+      resolved.push({ name: "lucide", icons: await loadLucideIcons(source) })
+    } else {
+      console.warn(`Mermaid icon pack "${pack}" is not registered`)
+    }
+  }
+
+  return resolved
+}
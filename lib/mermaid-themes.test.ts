@@ -0,0 +1,29 @@
+import { describe, expect, it } from "vitest"
+
+import {
+  auditMermaidTheme,
+  mermaidDarkThemes,
+  mermaidThemes,
+} from "@/lib/mermaid-themes"
+
+// Variables mermaid draws as text: `textColor`, `*TextColor`, `*TextFill`, `*Label<n>` and `quadrantTitleFill`
+const TEXT_VARIABLE = /^text|Text|Label|TitleFill$/
+
+const presets = [
+  ...Object.entries(mermaidThemes),
+  ...Object.entries(mermaidDarkThemes).map(
+    ([name, variables]) => [`${name} (dark)`, variables] as const
+  ),
+]
+
+describe("auditMermaidTheme", () => {
+  it.each(presets)("checks every text variable %s sets", (_, variables) => {
+    const audited = new Set(
+      auditMermaidTheme(variables).map((check) => check.foreground)
+    )
+    const unaudited = Object.keys(variables).filter(
+      (key) => TEXT_VARIABLE.test(key) && !audited.has(key)
+    )
+    expect(unaudited).toEqual([])
+  })
+})
@@ -1,4 +1,108 @@
-export interface MermaidThemeVariables {
+import {
+  compositeColor,
+  contrastRatio,
+  ensureContrast,
+  formatHex,
+  hslToRgb,
+  isLightColor,
+  parseColor,
+  rgbToHsl,
+} from "@/lib/mermaid-colors"
+
+type PieIndex = 1 | 2 | 3 | 4 | 5 | 6 | 7 | 8 | 9 | 10 | 11 | 12
+type ScaleIndex = 0 | 1 | 2 | 3 | 4 | 5 | 6 | 7 | 8 | 9 | 10 | 11
+type BranchIndex = 0 | 1 | 2 | 3 | 4 | 5 | 6 | 7
+type QuadrantIndex = 1 | 2 | 3 | 4
+
+/** Pie slices and labels */
+export type MermaidPieThemeVariables = Partial<
+  Record<
+    | `pie${PieIndex}`
+    | "pieTitleTextColor"
+    | "pieSectionTextColor"
+    | "pieLegendTextColor"
+    | "pieStrokeColor"
+    | "pieOuterStrokeColor",
+    string
+  >
+>
+
+/** Git graph branches and their labels */
+export type MermaidGitThemeVariables = Partial<
+  Record<
+    | `git${BranchIndex}`
+    | `gitBranchLabel${BranchIndex}`
+    | `gitInv${BranchIndex}`,
+    string
+  >
+>
+
+/** Gantt sections, tasks and markers */
+export type MermaidGanttThemeVariables = Partial<
+  Record<
+    | "sectionBkgColor"
+    | "altSectionBkgColor"
+    | "sectionBkgColor2"
+    | "excludeBkgColor"
+    | "taskBkgColor"
+    | "taskBorderColor"
+    | "taskTextColor"
+    | "taskTextLightColor"
+    | "taskTextDarkColor"
+    | "taskTextOutsideColor"
+    | "activeTaskBkgColor"
+    | "activeTaskBorderColor"
+    | "doneTaskBkgColor"
+    | "doneTaskBorderColor"
+    | "critBkgColor"
+    | "critBorderColor"
+    | "gridColor"
+    | "todayLineColor",
+    string
+  >
+>
+
+/** User journey sections (`fillType*`), actors and score faces */
+export type MermaidJourneyThemeVariables = Partial<
+  Record<
+    `fillType${BranchIndex}` | `actor${0 | 1 | 2 | 3 | 4 | 5}` | "faceColor",
+    string
+  >
+>
+
+/** Mindmap and timeline sections */
+export type MermaidScaleThemeVariables = Partial<
+  Record<`cScale${ScaleIndex}` | `cScaleLabel${ScaleIndex}`, string>
+>
+
+/** Quadrant chart fills, points and axes */
+export type MermaidQuadrantThemeVariables = Partial<
+  Record<
+    | `quadrant${QuadrantIndex}Fill`
+    | `quadrant${QuadrantIndex}TextFill`
+    | "quadrantPointFill"
+    | "quadrantPointTextFill"
+    | "quadrantXAxisTextFill"
+    | "quadrantYAxisTextFill"
+    | "quadrantTitleFill"
+    | "quadrantInternalBorderStrokeFill"
+    | "quadrantExternalBorderStrokeFill",
+    string
+  >
+>
+
+/**
+ * Mermaid theme variables. The eight core colors are required; mermaid derives
+ * anything left out from them.
+ */
+export interface MermaidThemeVariables
+  extends
+    MermaidPieThemeVariables,
+    MermaidGitThemeVariables,
+    MermaidGanttThemeVariables,
+    MermaidJourneyThemeVariables,
+    MermaidScaleThemeVariables,
+    MermaidQuadrantThemeVariables {
   primaryColor: string
   primaryTextColor: string
   primaryBorderColor: string
@@ -7,12 +111,161 @@ export interface MermaidThemeVariables {
   lineColor: string
   secondaryColor: string
   tertiaryColor: string
-  [key: string]: string
+  [key: string]: string | undefined
+}
+
+/* -------------------------------------------------------------------------------------------------
+ * Diagram variables
+ * Per-diagram colors derived from a palette's core colors, so pie slices, git branches, gantt
+ * sections and the rest match the palette instead of mermaid's base colors. Labels are checked
+ * against the fill they sit on.
+ * -----------------------------------------------------------------------------------------------*/
+
+// Spreads hues so neighbouring series colors stay distinct
+const GOLDEN_ANGLE = 137.508
+
+const SERIES_LENGTH = 12
+
+function hslHex(h: number, s: number, l: number) {
+  return formatHex(
+    hslToRgb({ h, s: Math.min(1, s), l: Math.min(1, Math.max(0, l)), a: 1 })
+  )
+}
+
+function hslOf(color: string) {
+  return rgbToHsl(parseColor(color) ?? { r: 0, g: 0, b: 0, a: 1 })
+}
+
+// Text tinted with `hue` on `fill`, adjusted until it is legible
+function labelColor(fill: string, hue: number, s: number, minContrast: number) {
+  return ensureContrast(
+    isLightColor(fill)
+      ? hslHex(hue, s * 0.5, 0.15)
+      : hslHex(hue, s * 0.3, 0.97),
+    fill,
+    minContrast
+  )
+}
+
+/**
+ * Twelve series colors: `offsets` (degrees from `h`) first, then golden-angle
+ * steps around the wheel. `null` offsets give a lightness ramp of one hue.
+ */
+function seriesColors(
+  h: number,
+  s: number,
+  dark: boolean,
+  offsets: number[] | null
+) {
+  return Array.from({ length: SERIES_LENGTH }, (_, i) => {
+    if (!offsets) return hslHex(h, s, (dark ? 0.3 : 0.35) + (i % 6) * 0.08)
+    const hue =
+      i === 0
+        ? h
+        : i <= offsets.length
+          ? h + offsets[i - 1]
+          : h + (i - offsets.length) * GOLDEN_ANGLE
+    return hslHex(hue, Math.max(s, 0.55), dark ? 0.45 : 0.6)
+  })
+}
+
+function indexed(prefix: string, colors: string[], start = 0) {
+  return Object.fromEntries(
+    colors.map((color, i) => [`${prefix}${i + start}`, color])
+  )
+}
+
+function diagramVariables(
+  core: MermaidThemeVariables,
+  series: string[],
+  minContrast = 4.5
+): Partial<MermaidThemeVariables> {
+  const { h, s } = hslOf(core.primaryColor)
+  const dark = !isLightColor(core.background)
+  const textOn = (fill: string) => labelColor(fill, h, s, minContrast)
+  const tint = (color: string, light: number, deep: number) => {
+    const hsl = hslOf(color)
+    return hslHex(hsl.h, hsl.s * 0.7, dark ? deep : light)
+  }
+
+  // Pie labels share one color, so slices are adjusted to it instead
+  const pieSectionTextColor = dark ? "#ffffff" : "#000000"
+  const quadrants = [0, 1, 2, 3].map((i) =>
+    hslHex(h, s * 0.6, dark ? 0.14 + i * 0.04 : 0.95 - i * 0.04)
+  )
+
+  return {
+    ...indexed(
+      "pie",
+      series.map((color) =>
+        ensureContrast(color, pieSectionTextColor, minContrast)
+      ),
+      1
+    ),
+    pieSectionTextColor,
+    pieTitleTextColor: core.textColor,
+    pieLegendTextColor: core.textColor,
+    pieStrokeColor: core.background,
+    pieOuterStrokeColor: core.primaryBorderColor,
+    ...indexed("git", series.slice(0, 8)),
+    ...indexed("gitBranchLabel", series.slice(0, 8).map(textOn)),
+    ...indexed("cScale", series),
+    ...indexed("cScaleLabel", series.map(textOn)),
+    // Gantt
+    sectionBkgColor: core.secondaryColor,
+    altSectionBkgColor: core.background,
+    sectionBkgColor2: core.tertiaryColor,
+    excludeBkgColor: hslHex(h, s * 0.1, dark ? 0.14 : 0.93),
+    taskBkgColor: core.primaryColor,
+    taskBorderColor: core.primaryBorderColor,
+    taskTextColor: textOn(core.primaryColor),
+    taskTextLightColor: textOn(core.primaryColor),
+    taskTextDarkColor: core.textColor,
+    taskTextOutsideColor: core.textColor,
+    activeTaskBkgColor: tint(core.primaryColor, 0.8, 0.3),
+    activeTaskBorderColor: core.primaryColor,
+    doneTaskBkgColor: hslHex(h, s * 0.15, dark ? 0.3 : 0.82),
+    doneTaskBorderColor: hslHex(h, s * 0.15, dark ? 0.45 : 0.65),
+    critBkgColor: dark ? "#b91c1c" : "#f87171",
+    critBorderColor: dark ? "#ef4444" : "#dc2626",
+    gridColor: hslHex(h, s * 0.2, dark ? 0.25 : 0.88),
+    todayLineColor: dark ? "#f87171" : "#dc2626",
+    // Journey
+    ...indexed(
+      "fillType",
+      series.slice(0, 8).map((color) => tint(color, 0.85, 0.25))
+    ),
+    ...indexed("actor", series.slice(0, 6)),
+    faceColor: tint(core.primaryColor, 0.9, 0.35),
+    // Quadrant chart
+    ...Object.fromEntries(
+      quadrants.flatMap((fill, i) => [
+        [`quadrant${i + 1}Fill`, fill],
+        [`quadrant${i + 1}TextFill`, textOn(fill)],
+      ])
+    ),
+    quadrantPointFill: core.primaryColor,
+    quadrantPointTextFill: core.textColor,
+    quadrantXAxisTextFill: core.textColor,
+    quadrantYAxisTextFill: core.textColor,
+    quadrantTitleFill: core.textColor,
+    quadrantInternalBorderStrokeFill: core.primaryBorderColor,
+    quadrantExternalBorderStrokeFill: core.primaryBorderColor,
+  }
+}
+
+/** Completes a preset's core colors with matching per-diagram variables */
+function preset(core: MermaidThemeVariables): MermaidThemeVariables {
+  const { h, s } = hslOf(core.primaryColor)
+  const dark = !isLightColor(core.background)
+  // Near-grey palettes get a lightness ramp rather than a rainbow
+  const series = seriesColors(h, s, dark, s < 0.15 ? null : [])
+  return { ...core, ...diagramVariables(core, series) }
 }
 
-export const mermaidThemes: Record<string, MermaidThemeVariables> = {
+export const mermaidThemes = {
   // Classic Green Family
-  emerald: {
+  emerald: preset({
     primaryColor: "#22c55e",
     primaryTextColor: "#ffffff",
     primaryBorderColor: "#16a34a",
@@ -21,10 +274,10 @@ export const mermaidThemes: Record<string, MermaidThemeVariables> = {
     lineColor: "#166534",
     secondaryColor: "#dcfce7",
     tertiaryColor: "#f0fdf4",
-  },
+  }),
 
   // Warm Family
-  coral: {
+  coral: preset({
     primaryColor: "#f97316",
     primaryTextColor: "#ffffff",
     primaryBorderColor: "#ea580c",
@@ -33,8 +286,8 @@ export const mermaidThemes: Record<string, MermaidThemeVariables> = {
     lineColor: "#c2410c",
     secondaryColor: "#fed7aa",
     tertiaryColor: "#fff7ed",
-  },
-  amber: {
+  }),
+  amber: preset({
     primaryColor: "#eab308",
     primaryTextColor: "#ffffff",
     primaryBorderColor: "#ca8a04",
@@ -43,8 +296,8 @@ export const mermaidThemes: Record<string, MermaidThemeVariables> = {
     lineColor: "#a16207",
     secondaryColor: "#fef08a",
     tertiaryColor: "#fefce8",
-  },
-  crimson: {
+  }),
+  crimson: preset({
     primaryColor: "#ef4444",
     primaryTextColor: "#ffffff",
     primaryBorderColor: "#dc2626",
@@ -53,8 +306,8 @@ export const mermaidThemes: Record<string, MermaidThemeVariables> = {
     lineColor: "#b91c1c",
     secondaryColor: "#fecaca",
     tertiaryColor: "#fef2f2",
-  },
-  bronze: {
+  }),
+  bronze: preset({
     primaryColor: "#d97706",
     primaryTextColor: "#ffffff",
     primaryBorderColor: "#b45309",
@@ -63,10 +316,10 @@ export const mermaidThemes: Record<string, MermaidThemeVariables> = {
     lineColor: "#92400e",
     secondaryColor: "#fcd34d",
     tertiaryColor: "#fef3c7",
-  },
+  }),
 
   // Cool Blue Family
-  ocean: {
+  ocean: preset({
     primaryColor: "#0ea5e9",
     primaryTextColor: "#ffffff",
     primaryBorderColor: "#0284c7",
@@ -75,8 +328,8 @@ export const mermaidThemes: Record<string, MermaidThemeVariables> = {
     lineColor: "#0369a1",
     secondaryColor: "#bae6fd",
     tertiaryColor: "#eff6ff",
-  },
-  sky: {
+  }),
+  sky: preset({
     primaryColor: "#38bdf8",
     primaryTextColor: "#ffffff",
     primaryBorderColor: "#0ea5e9",
@@ -85,8 +338,8 @@ export const mermaidThemes: Record<string, MermaidThemeVariables> = {
     lineColor: "#0284c7",
     secondaryColor: "#bae6fd",
     tertiaryColor: "#f0f9ff",
-  },
-  indigo: {
+  }),
+  indigo: preset({
     primaryColor: "#6366f1",
     primaryTextColor: "#ffffff",
     primaryBorderColor: "#4f46e5",
@@ -95,10 +348,10 @@ export const mermaidThemes: Record<string, MermaidThemeVariables> = {
     lineColor: "#4338ca",
     secondaryColor: "#c7d2fe",
     tertiaryColor: "#eef2ff",
-  },
+  }),
 
   // Green Variations
-  teal: {
+  teal: preset({
     primaryColor: "#14b8a6",
     primaryTextColor: "#ffffff",
     primaryBorderColor: "#0d9488",
@@ -107,8 +360,8 @@ export const mermaidThemes: Record<string, MermaidThemeVariables> = {
     lineColor: "#115e59",
     secondaryColor: "#ccfbf1",
     tertiaryColor: "#f0fdfa",
-  },
-  lime: {
+  }),
+  lime: preset({
     primaryColor: "#84cc16",
     primaryTextColor: "#ffffff",
     primaryBorderColor: "#65a30d",
@@ -117,8 +370,8 @@ export const mermaidThemes: Record<string, MermaidThemeVariables> = {
     lineColor: "#4d7c0f",
     secondaryColor: "#d4ed87",
     tertiaryColor: "#f4f4af",
-  },
-  mint: {
+  }),
+  mint: preset({
     primaryColor: "#6ee7b7",
     primaryTextColor: "#ffffff",
     primaryBorderColor: "#10b981",
@@ -127,10 +380,10 @@ export const mermaidThemes: Record<string, MermaidThemeVariables> = {
     lineColor: "#059669",
     secondaryColor: "#a7f3d0",
     tertiaryColor: "#ecfdf5",
-  },
+  }),
 
   // Purple/Pink Family
-  violet: {
+  violet: preset({
     primaryColor: "#a855f7",
     primaryTextColor: "#ffffff",
     primaryBorderColor: "#9333ea",
@@ -139,8 +392,8 @@ export const mermaidThemes: Record<string, MermaidThemeVariables> = {
     lineColor: "#7c3aed",
     secondaryColor: "#e9d5ff",
     tertiaryColor: "#faf5ff",
-  },
-  rose: {
+  }),
+  rose: preset({
     primaryColor: "#ec4899",
     primaryTextColor: "#ffffff",
     primaryBorderColor: "#db2777",
@@ -149,10 +402,10 @@ export const mermaidThemes: Record<string, MermaidThemeVariables> = {
     lineColor: "#c026d3",
     secondaryColor: "#fbcfe8",
     tertiaryColor: "#fdf2f8",
-  },
+  }),
 
   // Dark Professional
-  slate: {
+  slate: preset({
     primaryColor: "#64748b",
     primaryTextColor: "#f8fafc",
     primaryBorderColor: "#475569",
@@ -161,8 +414,8 @@ export const mermaidThemes: Record<string, MermaidThemeVariables> = {
     lineColor: "#334155",
     secondaryColor: "#1e293b",
     tertiaryColor: "#1e293b",
-  },
-  charcoal: {
+  }),
+  charcoal: preset({
     primaryColor: "#475569",
     primaryTextColor: "#f8fafc",
     primaryBorderColor: "#334155",
@@ -171,30 +424,619 @@ export const mermaidThemes: Record<string, MermaidThemeVariables> = {
     lineColor: "#6b7280",
     secondaryColor: "#1f2937",
     tertiaryColor: "#374151",
-  },
-} as const
+  }),
+} as const satisfies Record<string, MermaidThemeVariables>
+
+export type MermaidPresetTheme = keyof typeof mermaidThemes
+
+/**
+ * Names of themes added with `registerMermaidTheme`. Augment it so they type-check
+ * as `config.theme` values:
+ *
+ * ```ts
+ * declare module "@/lib/mermaid-themes" {
+ *   interface MermaidThemeRegistry {
+ *     brand: true
+ *   }
+ * }
+ * ```
+ */
+// eslint-disable-next-line @typescript-eslint/no-empty-object-type
+export interface MermaidThemeRegistry {}
 
-export type MermaidCustomTheme = keyof typeof mermaidThemes
+export type MermaidCustomTheme = MermaidPresetTheme | keyof MermaidThemeRegistry
 
-export const themeGroups = [
+/**
+ * Dark counterparts of `mermaidThemes`, used when `darkMode` is set. Same hue
+ * families, with deep backgrounds, light text and brighter lines.
+ */
+export const mermaidDarkThemes: Record<
+  MermaidPresetTheme,
+  MermaidThemeVariables
+> = {
+  // Classic Green Family
+  emerald: preset({
+    primaryColor: "#15803d",
+    primaryTextColor: "#ffffff",
+    primaryBorderColor: "#4ade80",
+    background: "#052e16",
+    textColor: "#dcfce7",
+    lineColor: "#4ade80",
+    secondaryColor: "#14532d",
+    tertiaryColor: "#052e16",
+  }),
+
+  // Warm Family
+  coral: preset({
+    primaryColor: "#c2410c",
+    primaryTextColor: "#ffffff",
+    primaryBorderColor: "#fb923c",
+    background: "#431407",
+    textColor: "#ffedd5",
+    lineColor: "#fb923c",
+    secondaryColor: "#7c2d12",
+    tertiaryColor: "#431407",
+  }),
+  amber: preset({
+    primaryColor: "#facc15",
+    primaryTextColor: "#422006",
+    primaryBorderColor: "#fde047",
+    background: "#422006",
+    textColor: "#fef9c3",
+    lineColor: "#facc15",
+    secondaryColor: "#713f12",
+    tertiaryColor: "#422006",
+  }),
+  crimson: preset({
+    primaryColor: "#dc2626",
+    primaryTextColor: "#ffffff",
+    primaryBorderColor: "#f87171",
+    background: "#450a0a",
+    textColor: "#fee2e2",
+    lineColor: "#f87171",
+    secondaryColor: "#7f1d1d",
+    tertiaryColor: "#450a0a",
+  }),
+  bronze: preset({
+    primaryColor: "#b45309",
+    primaryTextColor: "#ffffff",
+    primaryBorderColor: "#fbbf24",
+    background: "#451a03",
+    textColor: "#fef3c7",
+    lineColor: "#fbbf24",
+    secondaryColor: "#78350f",
+    tertiaryColor: "#451a03",
+  }),
+
+  // Cool Blue Family
+  ocean: preset({
+    primaryColor: "#0369a1",
+    primaryTextColor: "#ffffff",
+    primaryBorderColor: "#38bdf8",
+    background: "#082f49",
+    textColor: "#e0f2fe",
+    lineColor: "#38bdf8",
+    secondaryColor: "#0c4a6e",
+    tertiaryColor: "#082f49",
+  }),
+  sky: preset({
+    primaryColor: "#38bdf8",
+    primaryTextColor: "#082f49",
+    primaryBorderColor: "#7dd3fc",
+    background: "#082f49",
+    textColor: "#e0f2fe",
+    lineColor: "#7dd3fc",
+    secondaryColor: "#075985",
+    tertiaryColor: "#0c4a6e",
+  }),
+  indigo: preset({
+    primaryColor: "#4f46e5",
+    primaryTextColor: "#ffffff",
+    primaryBorderColor: "#818cf8",
+    background: "#1e1b4b",
+    textColor: "#e0e7ff",
+    lineColor: "#818cf8",
+    secondaryColor: "#312e81",
+    tertiaryColor: "#1e1b4b",
+  }),
+
+  // Green Variations
+  teal: preset({
+    primaryColor: "#0f766e",
+    primaryTextColor: "#ffffff",
+    primaryBorderColor: "#2dd4bf",
+    background: "#042f2e",
+    textColor: "#ccfbf1",
+    lineColor: "#2dd4bf",
+    secondaryColor: "#134e4a",
+    tertiaryColor: "#042f2e",
+  }),
+  lime: preset({
+    primaryColor: "#a3e635",
+    primaryTextColor: "#1a2e05",
+    primaryBorderColor: "#bef264",
+    background: "#1a2e05",
+    textColor: "#ecfccb",
+    lineColor: "#a3e635",
+    secondaryColor: "#365314",
+    tertiaryColor: "#1a2e05",
+  }),
+  mint: preset({
+    primaryColor: "#34d399",
+    primaryTextColor: "#022c22",
+    primaryBorderColor: "#6ee7b7",
+    background: "#022c22",
+    textColor: "#d1fae5",
+    lineColor: "#34d399",
+    secondaryColor: "#064e3b",
+    tertiaryColor: "#022c22",
+  }),
+
+  // Purple/Pink Family
+  violet: preset({
+    primaryColor: "#9333ea",
+    primaryTextColor: "#ffffff",
+    primaryBorderColor: "#c084fc",
+    background: "#3b0764",
+    textColor: "#f3e8ff",
+    lineColor: "#a78bfa",
+    secondaryColor: "#581c87",
+    tertiaryColor: "#3b0764",
+  }),
+  rose: preset({
+    primaryColor: "#db2777",
+    primaryTextColor: "#ffffff",
+    primaryBorderColor: "#f472b6",
+    background: "#500724",
+    textColor: "#fce7f3",
+    lineColor: "#e879f9",
+    secondaryColor: "#831843",
+    tertiaryColor: "#500724",
+  }),
+
+  // Dark Professional: already dark, so they pair with themselves
+  slate: mermaidThemes.slate,
+  charcoal: mermaidThemes.charcoal,
+}
+
+export interface MermaidThemeGroup {
+  label: string
+  themes: MermaidCustomTheme[]
+}
+
+export const themeGroups: MermaidThemeGroup[] = [
   {
     label: "Green",
-    themes: ["emerald", "teal", "lime", "mint"] as MermaidCustomTheme[],
+    themes: ["emerald", "teal", "lime", "mint"],
   },
   {
     label: "Warm",
-    themes: ["coral", "amber", "crimson", "bronze"] as MermaidCustomTheme[],
+    themes: ["coral", "amber", "crimson", "bronze"],
   },
   {
     label: "Cool",
-    themes: ["ocean", "sky", "indigo"] as MermaidCustomTheme[],
+    themes: ["ocean", "sky", "indigo"],
   },
   {
     label: "Purple / Pink",
-    themes: ["violet", "rose"] as MermaidCustomTheme[],
+    themes: ["violet", "rose"],
   },
   {
     label: "Dark",
-    themes: ["slate", "charcoal"] as MermaidCustomTheme[],
+    themes: ["slate", "charcoal"],
   },
-] as const
+]
+
+/* -------------------------------------------------------------------------------------------------
+ * Registry
+ * App-specific themes registered at runtime. They resolve by name like the presets, so `useMermaid`,
+ * `themeGroups` and the playground pick them up without editing this file.
+ * -----------------------------------------------------------------------------------------------*/
+
+export interface RegisterMermaidThemeOptions {
+  /** `themeGroups` label to list the theme under. Defaults to "Custom" */
+  group?: string
+  /** Palette used when `darkMode` is set. Defaults to `variables` */
+  dark?: MermaidThemeVariables
+}
+
+const themeRegistry = new Map<
+  string,
+  { light: MermaidThemeVariables; dark?: MermaidThemeVariables }
+>()
+
+/**
+ * Registers a theme that `config.theme` can then select by name. Registering a
+ * name again replaces it, including a preset's. Returns `name` typed as a literal.
+ */
+export function registerMermaidTheme<const Name extends string>(
+  name: Name,
+  variables: MermaidThemeVariables,
+  { group = "Custom", dark }: RegisterMermaidThemeOptions = {}
+): Name {
+  themeRegistry.set(name, { light: variables, dark })
+
+  const theme = name as MermaidCustomTheme
+  for (const entry of themeGroups) {
+    entry.themes = entry.themes.filter((t) => t !== theme)
+  }
+  const target = themeGroups.find((entry) => entry.label === group)
+  if (target) target.themes.push(theme)
+  else themeGroups.push({ label: group, themes: [theme] })
+
+  return name
+}
+
+/** Light variables of every preset and registered theme, keyed by name */
+export function getMermaidThemes(): Record<
+  MermaidCustomTheme,
+  MermaidThemeVariables
+> {
+  return {
+    ...mermaidThemes,
+    ...Object.fromEntries(
+      Array.from(themeRegistry, ([name, { light }]) => [name, light])
+    ),
+  } as Record<MermaidCustomTheme, MermaidThemeVariables>
+}
+
+/**
+ * Variables for a preset or registered theme, switching to its dark palette
+ * when `darkMode` is set
+ */
+export function getMermaidThemeVariables(
+  theme: MermaidCustomTheme,
+  darkMode = false
+): MermaidThemeVariables | undefined {
+  const registered = themeRegistry.get(theme)
+  if (registered) return (darkMode && registered.dark) || registered.light
+
+  const preset = theme as MermaidPresetTheme
+  return (darkMode && mermaidDarkThemes[preset]) || mermaidThemes[preset]
+}
+
+/* -------------------------------------------------------------------------------------------------
+ * shadcn
+ * Theme variables derived from the host app's shadcn tokens, so diagrams follow its brand and its
+ * light/dark switch instead of a fixed palette.
+ * -----------------------------------------------------------------------------------------------*/
+
+const CHART_TOKENS = ["chart-1", "chart-2", "chart-3", "chart-4", "chart-5"]
+
+/**
+ * Reads `--primary`, `--background`, `--foreground`, `--muted`, `--border` and
+ * `--chart-1..5` from the computed styles of `element` (the document root by
+ * default) and maps them to mermaid theme variables as hex. Translucent tokens
+ * are blended over `--background`. Missing tokens are left out.
+ */
+export function getShadcnThemeVariables(
+  element?: Element
+): Partial<MermaidThemeVariables> {
+  if (typeof document === "undefined") return {}
+  const style = getComputedStyle(element ?? document.documentElement)
+  const backdrop = parseColor(style.getPropertyValue("--background")) ?? {
+    r: 255,
+    g: 255,
+    b: 255,
+    a: 1,
+  }
+  const token = (name: string) => {
+    const color = parseColor(style.getPropertyValue(`--${name}`))
+    return color ? formatHex(compositeColor(color, backdrop)) : undefined
+  }
+
+  const primary = token("primary")
+  const background = token("background")
+  const foreground = token("foreground")
+  const muted = token("muted")
+  const border = token("border")
+  const charts = CHART_TOKENS.map(token)
+
+  const variables: Record<string, string | undefined> = {
+    primaryColor: primary,
+    primaryTextColor: token("primary-foreground") ?? background,
+    primaryBorderColor: primary,
+    background,
+    mainBkg: primary,
+    textColor: foreground,
+    lineColor: token("muted-foreground") ?? foreground,
+    secondaryColor: muted,
+    secondaryTextColor: foreground,
+    tertiaryColor: background,
+    tertiaryTextColor: foreground,
+    clusterBkg: muted,
+    clusterBorder: border,
+    edgeLabelBackground: background,
+    noteBkgColor: muted,
+    noteTextColor: foreground,
+    noteBorderColor: border,
+    ...Object.fromEntries(
+      charts.flatMap((color, i) => [
+        [`pie${i + 1}`, color],
+        [`git${i}`, color],
+        [`cScale${i}`, color],
+      ])
+    ),
+  }
+
+  return Object.fromEntries(
+    Object.entries(variables).filter(([, value]) => value !== undefined)
+  ) as Partial<MermaidThemeVariables>
+}
+
+/* -------------------------------------------------------------------------------------------------
+ * Generator
+ * Builds a complete variable set from one brand color. Every text color is checked against the
+ * fill it sits on and pushed lighter or darker until it meets the requested WCAG contrast.
+ * -----------------------------------------------------------------------------------------------*/
+
+export type MermaidThemeHarmony =
+  | "monochromatic"
+  | "analogous"
+  | "complementary"
+  | "split-complementary"
+  | "triadic"
+  | "tetradic"
+
+export interface CreateMermaidThemeOptions {
+  /** Brand color in any CSS color format; used as `primaryColor` */
+  seed: string
+  /** Defaults to "light" */
+  mode?: "light" | "dark"
+  /** How secondary, tertiary and series hues relate to the seed. Defaults to "complementary" */
+  harmony?: MermaidThemeHarmony
+  /** Minimum contrast for text on fills. Defaults to 4.5 (WCAG AA) */
+  minContrast?: number
+}
+
+// Hue offsets from the seed, in degrees
+const HARMONY_OFFSETS: Record<MermaidThemeHarmony, number[]> = {
+  monochromatic: [],
+  analogous: [30, -30],
+  complementary: [180],
+  "split-complementary": [150, 210],
+  triadic: [120, 240],
+  tetradic: [90, 180, 270],
+}
+
+/**
+ * Generates a full `MermaidThemeVariables` set from a seed color: core colors
+ * plus the per-diagram variables the presets carry, each with a readable label
+ * color.
+ */
+export function createMermaidTheme({
+  seed,
+  mode = "light",
+  harmony = "complementary",
+  minContrast = 4.5,
+}: CreateMermaidThemeOptions): MermaidThemeVariables {
+  const seedColor = parseColor(seed)
+  if (!seedColor) throw new Error(`Unsupported seed color "${seed}"`)
+
+  const { h, s, l } = rgbToHsl(seedColor)
+  const dark = mode === "dark"
+  const offsets = HARMONY_OFFSETS[harmony]
+
+  const textOn = (fill: string, hue = h) =>
+    labelColor(fill, hue, s, minContrast)
+
+  const background = dark ? hslHex(h, s * 0.3, 0.08) : hslHex(h, s * 0.6, 0.98)
+  const primaryColor = formatHex({ ...seedColor, a: 1 })
+  const secondaryHue = h + (offsets[0] ?? 0)
+  const tertiaryHue = h + (offsets[1] ?? offsets[0] ?? 0)
+  const secondaryColor = hslHex(secondaryHue, s * 0.7, dark ? 0.22 : 0.88)
+  const tertiaryColor = hslHex(tertiaryHue, s * 0.5, dark ? 0.16 : 0.94)
+
+  const textColor = ensureContrast(
+    hslHex(h, s * 0.6, dark ? 0.9 : 0.2),
+    background,
+    minContrast
+  )
+
+  const core: MermaidThemeVariables = {
+    primaryColor,
+    primaryTextColor: textOn(primaryColor),
+    primaryBorderColor: hslHex(h, s, dark ? l + 0.15 : l - 0.12),
+    background,
+    textColor,
+    // Lines are graphics rather than text: WCAG asks 3:1
+    lineColor: ensureContrast(
+      hslHex(h, s * 0.6, dark ? 0.65 : 0.4),
+      background,
+      3
+    ),
+    secondaryColor,
+    secondaryTextColor: textOn(secondaryColor, secondaryHue),
+    secondaryBorderColor: hslHex(secondaryHue, s * 0.7, dark ? 0.45 : 0.65),
+    tertiaryColor,
+    tertiaryTextColor: textOn(tertiaryColor, tertiaryHue),
+    tertiaryBorderColor: hslHex(tertiaryHue, s * 0.5, dark ? 0.4 : 0.7),
+    edgeLabelBackground: background,
+  }
+
+  // The harmony hues lead the series
+  const series = seriesColors(
+    h,
+    s,
+    dark,
+    harmony === "monochromatic" ? null : offsets
+  )
+  return { ...core, ...diagramVariables(core, series, minContrast) }
+}
+
+/* -------------------------------------------------------------------------------------------------
+ * Audit
+ * -----------------------------------------------------------------------------------------------*/
+
+export type MermaidContrastLevel = "AAA" | "AA" | "AA Large" | "Fail"
+
+export interface MermaidContrastCheck {
+  /** Variable holding the text (or line) color, e.g. `primaryTextColor` */
+  foreground: string
+  /** Variable holding the color it is drawn on, e.g. `primaryColor` */
+  background: string
+  foregroundColor: string
+  backgroundColor: string
+  ratio: number
+  /** Ratio this pair must reach: `minContrast` for text, 3 for lines */
+  minRatio: number
+  level: MermaidContrastLevel
+  passes: boolean
+}
+
+// [foreground, background, is a graphic rather than text]
+const CONTRAST_PAIRS: [string, string, boolean?][] = [
+  ["textColor", "background"],
+  ["textColor", "edgeLabelBackground"],
+  ["lineColor", "background", true],
+  ["primaryTextColor", "primaryColor"],
+  ["secondaryTextColor", "secondaryColor"],
+  ["tertiaryTextColor", "tertiaryColor"],
+  ["noteTextColor", "noteBkgColor"],
+  ["actorTextColor", "actorBkg"],
+  ["labelTextColor", "labelBoxBkgColor"],
+  ["pieTitleTextColor", "background"],
+  ["pieLegendTextColor", "background"],
+  ...Array.from(
+    { length: 12 },
+    (_, i) => ["pieSectionTextColor", `pie${i + 1}`] as [string, string]
+  ),
+  ...Array.from(
+    { length: 8 },
+    (_, i) => [`gitBranchLabel${i}`, `git${i}`] as [string, string]
+  ),
+  ...Array.from(
+    { length: 12 },
+    (_, i) => [`cScaleLabel${i}`, `cScale${i}`] as [string, string]
+  ),
+  // Gantt: labels inside bars, and mermaid's dark text on active, done and critical ones
+  ["taskTextColor", "taskBkgColor"],
+  ["taskTextLightColor", "taskBkgColor"],
+  ["taskTextDarkColor", "activeTaskBkgColor"],
+  ["taskTextDarkColor", "doneTaskBkgColor"],
+  ["taskTextDarkColor", "critBkgColor"],
+  ["taskTextOutsideColor", "background"],
+  ["textColor", "sectionBkgColor"],
+  ["textColor", "sectionBkgColor2"],
+  // Journey sections
+  ...Array.from(
+    { length: 8 },
+    (_, i) => ["textColor", `fillType${i}`] as [string, string]
+  ),
+  // Quadrant chart: points can land in any quadrant
+  ...[1, 2, 3, 4].flatMap((i): [string, string][] => [
+    [`quadrant${i}TextFill`, `quadrant${i}Fill`],
+    ["quadrantPointTextFill", `quadrant${i}Fill`],
+  ]),
+  ["quadrantXAxisTextFill", "background"],
+  ["quadrantYAxisTextFill", "background"],
+  ["quadrantTitleFill", "background"],
+]
+
+function contrastLevel(ratio: number): MermaidContrastLevel {
+  if (ratio >= 7) return "AAA"
+  if (ratio >= 4.5) return "AA"
+  if (ratio >= 3) return "AA Large"
+  return "Fail"
+}
+
+/**
+ * Reports the WCAG contrast ratio of every text/fill pair set in `variables`.
+ * Pairs with a missing or unparseable color are left out.
+ */
+export function auditMermaidTheme(
+  variables: Partial<MermaidThemeVariables>,
+  { minContrast = 4.5 }: { minContrast?: number } = {}
+): MermaidContrastCheck[] {
+  return CONTRAST_PAIRS.flatMap(([foreground, background, graphic]) => {
+    const foregroundColor = variables[foreground]
+    const backgroundColor = variables[background]
+    if (!foregroundColor || !backgroundColor) return []
+    const ratio = contrastRatio(foregroundColor, backgroundColor)
+    if (Number.isNaN(ratio)) return []
+    const minRatio = graphic ? 3 : minContrast
+    return [
+      {
+        foreground,
+        background,
+        foregroundColor,
+        backgroundColor,
+        ratio,
+        minRatio,
+        level: contrastLevel(ratio),
+        passes: ratio >= minRatio,
+      },
+    ]
+  })
+}
+
+/* -------------------------------------------------------------------------------------------------
+ * Import / export
+ * Portable forms of a theme for places mermaidcn doesn't run, such as GitHub markdown, which only
+ * honours `%%{init}%%` directives.
+ * -----------------------------------------------------------------------------------------------*/
+
+/** Pretty-printed JSON, suitable for a `.json` theme file */
+export function toMermaidThemeJSON(
+  variables: Partial<MermaidThemeVariables>
+): string {
+  return JSON.stringify(variables, null, 2)
+}
+
+/** An init directive that applies the theme when placed at the top of a chart */
+export function toMermaidInitDirective(
+  variables: Partial<MermaidThemeVariables>
+): string {
+  return `%%{init: ${JSON.stringify({ theme: "base", themeVariables: variables })}}%%`
+}
+
+/** A CSS block with one custom property per variable, e.g. `--mermaid-primary-color` */
+export function toMermaidThemeCSS(
+  variables: Partial<MermaidThemeVariables>,
+  { selector = ":root", prefix = "--mermaid-" } = {}
+): string {
+  const properties = Object.entries(variables)
+    .filter(([, value]) => value !== undefined)
+    .map(
+      ([name, value]) =>
+        `  ${prefix}${name.replace(/[A-Z]|\d+/g, (m) => `-${m.toLowerCase()}`)}: ${value};`
+    )
+  return `${selector} {\n${properties.join("\n")}\n}`
+}
+
+const INIT_DIRECTIVE = /%%\{\s*init(?:ialize)?\s*:\s*([\s\S]*?)\}%%/
+
+/**
+ * Reads `themeVariables` back out of an init directive, or out of a whole chart
+ * that starts with one. Accepts the relaxed syntax mermaid does: single quotes,
+ * unquoted keys and trailing commas. Returns `null` when there is none.
+ */
+export function parseMermaidInitDirective(
+  text: string
+): Partial<MermaidThemeVariables> | null {
+  const body = text.match(INIT_DIRECTIVE)?.[1]
+  if (!body) return null
+
+  const json = body
+    .replace(/'((?:[^'\\]|\\.)*)'/g, (_, value: string) =>
+      JSON.stringify(value.replace(/\\'/g, "'"))
+    )
+    .replace(/([{,]\s*)([A-Za-z_$][\w$]*)\s*:/g, '$1"$2":')
+    .replace(/,(\s*[}\]])/g, "$1")
+
+  let config: { themeVariables?: Record<string, unknown> }
+  try {
+    config = JSON.parse(json)
+  } catch {
+    return null
+  }
+  if (!config.themeVariables || typeof config.themeVariables !== "object") {
+    return null
+  }
+
+  return Object.fromEntries(
+    Object.entries(config.themeVariables)
+      .filter(([, value]) => ["string", "number"].includes(typeof value))
+      .map(([name, value]) => [name, String(value)])
+  )
+}